@@ -2,6 +2,7 @@ import http from "node:http";
 import path from "node:path";
 import { WebSocketServer } from "ws";
 import { DEFAULT_ROOM_CODE, DEFAULT_SERVER_PORT, MAX_PLAYERS_PER_ROOM } from "../src/shared/constants";
+import { DAY_LENGTH_SECONDS } from "../src/config";
 import { RoomServer } from "./room";
 
 const port = Number(process.env.PORT ?? DEFAULT_SERVER_PORT);
@@ -9,8 +10,10 @@ const roomCode = process.env.ROOM_CODE ?? DEFAULT_ROOM_CODE;
 const maxPlayers = Number(process.env.MAX_PLAYERS ?? MAX_PLAYERS_PER_ROOM);
 const dataDir = process.env.WORLD_DATA_DIR ?? path.join(process.cwd(), "server-data");
 const seed = Number(process.env.WORLD_SEED ?? Math.floor(Math.random() * 2_147_483_647));
+const dayLengthSeconds = Number(process.env.DAY_LENGTH_SECONDS ?? DAY_LENGTH_SECONDS);
+const keepInventory = process.env.KEEP_INVENTORY === "true" || process.env.KEEP_INVENTORY === "1";
 
-const room = new RoomServer(seed, dataDir, roomCode, maxPlayers);
+const room = new RoomServer(seed, dataDir, roomCode, maxPlayers, dayLengthSeconds, keepInventory);
 room.start();
 
 const httpServer = http.createServer((req, res) => {
@@ -1,8 +1,17 @@
-import { HOTBAR_SIZE, MAX_STACK } from "../src/config";
 import { SharedItemId, SharedItemStack } from "../src/shared/protocol";
+import {
+  createEmptySection,
+  InventorySlots,
+  moveStack,
+  resetCraftingGrid,
+  SlotContainer,
+  SlotRef,
+  takeAllStacks,
+  transferStack
+} from "../src/shared/inventorySlots";
+import { createItemStack, getMaxStackSize, wearTool } from "../src/tools";
 
-export interface ServerInventory {
-  hotbar: (SharedItemStack | null)[];
+export interface ServerInventory extends InventorySlots<SharedItemStack> {
   selectedSlot: number;
 }
 
@@ -19,13 +28,17 @@ export function createStarterInventory(): ServerInventory {
       null,
       null,
       null
-    ]
+    ],
+    main: createEmptySection("main"),
+    armor: createEmptySection("armor"),
+    offhand: createEmptySection("offhand"),
+    crafting: []
   };
 }
 
 export function countItem(inventory: ServerInventory, item: SharedItemId): number {
   let count = 0;
-  for (const slot of inventory.hotbar) {
+  for (const slot of [...inventory.hotbar, ...inventory.main]) {
     if (slot?.item === item) {
       count += slot.count;
     }
@@ -34,51 +47,69 @@ export function countItem(inventory: ServerInventory, item: SharedItemId): numbe
 }
 
 export function addItem(inventory: ServerInventory, item: SharedItemId, count: number): number {
-  let remaining = count;
-  for (const slot of inventory.hotbar) {
-    if (!slot || slot.item !== item || slot.count >= MAX_STACK) {
-      continue;
-    }
-    const canTake = Math.min(MAX_STACK - slot.count, remaining);
-    slot.count += canTake;
-    remaining -= canTake;
-    if (remaining === 0) {
-      return 0;
+  return addStack(inventory, createItemStack(item, count));
+}
+
+// Tops up matching stacks first, then fills empty slots, hotbar before main storage. Returns what didn't fit.
+export function addStack(inventory: ServerInventory, stack: SharedItemStack): number {
+  const maxStack = getMaxStackSize(stack.item);
+  let remaining = stack.count;
+  for (const slots of [inventory.hotbar, inventory.main]) {
+    for (const slot of slots) {
+      if (!slot || slot.item !== stack.item || slot.count >= maxStack) {
+        continue;
+      }
+      const canTake = Math.min(maxStack - slot.count, remaining);
+      slot.count += canTake;
+      remaining -= canTake;
+      if (remaining === 0) {
+        return 0;
+      }
     }
   }
 
-  for (let i = 0; i < HOTBAR_SIZE; i += 1) {
-    if (inventory.hotbar[i]) {
-      continue;
-    }
-    const add = Math.min(MAX_STACK, remaining);
-    inventory.hotbar[i] = { item, count: add };
-    remaining -= add;
-    if (remaining === 0) {
-      return 0;
+  for (const slots of [inventory.hotbar, inventory.main]) {
+    for (let i = 0; i < slots.length; i += 1) {
+      if (slots[i]) {
+        continue;
+      }
+      const add = Math.min(maxStack, remaining);
+      slots[i] = { ...stack, count: add };
+      remaining -= add;
+      if (remaining === 0) {
+        return 0;
+      }
     }
   }
   return remaining;
 }
 
+export function hasRoomFor(inventory: ServerInventory, item: SharedItemId): boolean {
+  const maxStack = getMaxStackSize(item);
+  const slots = [...inventory.hotbar, ...inventory.main];
+  return slots.some((slot) => !slot || (slot.item === item && slot.count < maxStack));
+}
+
 export function removeItem(inventory: ServerInventory, item: SharedItemId, count: number): boolean {
   if (countItem(inventory, item) < count) {
     return false;
   }
   let remaining = count;
-  for (let i = 0; i < HOTBAR_SIZE; i += 1) {
-    const slot = inventory.hotbar[i];
-    if (!slot || slot.item !== item) {
-      continue;
-    }
-    const used = Math.min(slot.count, remaining);
-    slot.count -= used;
-    remaining -= used;
-    if (slot.count === 0) {
-      inventory.hotbar[i] = null;
-    }
-    if (remaining === 0) {
-      return true;
+  for (const slots of [inventory.main, inventory.hotbar]) {
+    for (let i = 0; i < slots.length; i += 1) {
+      const slot = slots[i];
+      if (!slot || slot.item !== item) {
+        continue;
+      }
+      const used = Math.min(slot.count, remaining);
+      slot.count -= used;
+      remaining -= used;
+      if (slot.count === 0) {
+        slots[i] = null;
+      }
+      if (remaining === 0) {
+        return true;
+      }
     }
   }
   return true;
@@ -96,12 +127,69 @@ export function consumeSelected(inventory: ServerInventory, count = 1): boolean
   return true;
 }
 
-export function serializeInventory(inventory: ServerInventory): {
-  hotbar: (SharedItemStack | null)[];
+// Removes up to `count` items from the selected slot and returns them as their own stack, e.g. to throw.
+export function takeSelected(inventory: ServerInventory, count: number): SharedItemStack | null {
+  const slot = inventory.hotbar[inventory.selectedSlot];
+  if (!slot || count < 1) {
+    return null;
+  }
+  const taken = Math.min(count, slot.count);
+  slot.count -= taken;
+  if (slot.count === 0) {
+    inventory.hotbar[inventory.selectedSlot] = null;
+  }
+  return { ...slot, count: taken };
+}
+
+// Wears down the selected tool, removing it when it breaks; returns whether the selected stack was a tool.
+export function damageSelectedTool(inventory: ServerInventory, amount = 1): boolean {
+  const slot = inventory.hotbar[inventory.selectedSlot];
+  if (!slot || slot.durability === undefined) {
+    return false;
+  }
+  if (!wearTool(slot, amount)) {
+    inventory.hotbar[inventory.selectedSlot] = null;
+  }
+  return true;
+}
+
+export function moveItem(
+  inventory: ServerInventory,
+  from: SlotRef,
+  to: SlotRef,
+  count: number,
+  container: SlotContainer<SharedItemStack> | null = null
+): boolean {
+  return moveStack(inventory, from, to, count, container);
+}
+
+export function transferItem(
+  inventory: ServerInventory,
+  from: SlotRef,
+  container: SlotContainer<SharedItemStack> | null
+): boolean {
+  return transferStack(inventory, from, container);
+}
+
+export function takeAllItems(inventory: ServerInventory): SharedItemStack[] {
+  return takeAllStacks(inventory);
+}
+
+// Opens a crafting grid of the given size, or closes it with 0, returning whatever was left on it.
+export function resetCraftingSlots(inventory: ServerInventory, size = 0): SharedItemStack[] {
+  return resetCraftingGrid(inventory, size);
+}
+
+export function serializeInventory(inventory: ServerInventory): InventorySlots<SharedItemStack> & {
   selectedSlot: number;
 } {
+  const copy = (slots: (SharedItemStack | null)[]) => slots.map((slot) => (slot ? { ...slot } : null));
   return {
     selectedSlot: inventory.selectedSlot,
-    hotbar: inventory.hotbar.map((slot) => (slot ? { item: slot.item, count: slot.count } : null))
+    hotbar: copy(inventory.hotbar),
+    main: copy(inventory.main),
+    armor: copy(inventory.armor),
+    offhand: copy(inventory.offhand),
+    crafting: copy(inventory.crafting)
   };
 }
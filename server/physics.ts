@@ -4,6 +4,10 @@ export interface CollisionWorld {
   isSolid(x: number, y: number, z: number): boolean;
 }
 
+export interface FluidWorld {
+  isLiquid(x: number, y: number, z: number): boolean;
+}
+
 export interface CollisionBody {
   halfWidth: number;
   height: number;
@@ -95,3 +99,22 @@ export function aabbIntersectsBlock(position: Vec3, body: CollisionBody, bx: num
     maxZ > bz
   );
 }
+
+export function overlapsLiquid(world: FluidWorld, position: Vec3, body: CollisionBody): boolean {
+  const minX = Math.floor(position.x - body.halfWidth);
+  const maxX = Math.floor(position.x + body.halfWidth);
+  const minY = Math.floor(position.y);
+  const maxY = Math.floor(position.y + body.height - 1e-5);
+  const minZ = Math.floor(position.z - body.halfWidth);
+  const maxZ = Math.floor(position.z + body.halfWidth);
+  for (let x = minX; x <= maxX; x += 1) {
+    for (let y = minY; y <= maxY; y += 1) {
+      for (let z = minZ; z <= maxZ; z += 1) {
+        if (world.isLiquid(x, y, z)) {
+          return true;
+        }
+      }
+    }
+  }
+  return false;
+}
@@ -3,12 +3,16 @@ import path from "node:path";
 import { WebSocket } from "ws";
 import {
   BlockDelta,
+  BlockEntityState,
   ClientMessage,
+  DamageCause,
+  NetItemState,
   NetMobState,
   NetPlayerState,
   parseClientMessage,
   serializeMessage,
-  ServerMessage
+  ServerMessage,
+  SharedItemStack
 } from "../src/shared/protocol";
 import {
   DEFAULT_ROOM_CODE,
@@ -21,24 +25,93 @@ import {
 import {
   GRAVITY,
   CHUNK_SIZE,
+  BLOCK_USE_REACH,
+  DAY_LENGTH_SECONDS,
   HOTBAR_SIZE,
+  ITEM_BLOCK_PICKUP_DELAY,
+  ITEM_DESPAWN_SECONDS,
+  ITEM_HALF_WIDTH,
+  ITEM_HEIGHT,
+  ITEM_THROW_PICKUP_DELAY,
+  MAX_ITEM_ENTITIES,
+  MOB_HEIGHT,
+  MOB_SUNLIGHT_DAMAGE_PER_SECOND,
   PLAYER_EYE_HEIGHT,
   PLAYER_HALF_WIDTH,
   PLAYER_HEIGHT,
-  PLAYER_JUMP_SPEED,
-  PLAYER_SPRINT_SPEED,
-  PLAYER_WALK_SPEED,
+  PLAYER_MAX_HEALTH,
+  START_TIME_OF_DAY,
   WORLD_HEIGHT
 } from "../src/config";
-import { BLOCK_DEFS, blockIdToDrop, isSolidBlock, itemToBlockId } from "../src/blocks";
+import { advanceTimeOfDay, getDaylight } from "../src/shared/dayCycle";
+import {
+  findHostileSpawnY,
+  getMobMeatDrop,
+  isBurningInSunlight,
+  isOutsideSpawnRadius,
+  pickSpawnColumn
+} from "../src/shared/mobRules";
+import { getBlockEntityContainer, getBlockEntityDrops, hasBlockEntityProgress } from "../src/shared/blockEntities";
+import { INVENTORY_GRID_SIZE, TABLE_GRID_SIZE } from "../src/shared/craftingGrid";
+import { INVENTORY_SECTIONS, SlotRef } from "../src/shared/inventorySlots";
+import {
+  applyItemGravity,
+  applyItemMagnet,
+  getPopVelocity,
+  getThrowVelocity,
+  isInMagnetRange,
+  isInPickupRange
+} from "../src/shared/itemDrops";
+import { createHazardState, getDamageTaken, HazardState, tickHazards } from "../src/shared/damage";
+import { createHungerState, eatFood, HungerState, tickHunger, updateEating } from "../src/shared/hunger";
+import { applyVerticalMovement, getMovementActivity, getMoveSpeed } from "../src/shared/movement";
+import { getArmorDefense } from "../src/armor";
+import {
+  BLOCK_DEFS,
+  blockIdToDrop,
+  isLiquidBlock,
+  isReplaceableBlock,
+  isSolidBlock,
+  isSuffocatingBlock,
+  itemToBlockId,
+  rollBonusDrop
+} from "../src/blocks";
+import { canHarvest, createItemStack, getAttackDamage, getMiningSeconds, upgradeLegacyItemId } from "../src/tools";
 import { BlockId } from "../src/types";
 import { chunkKey } from "../src/world/chunk";
-import { craftRecipe } from "./crafting";
-import { addItem, consumeSelected, createStarterInventory, serializeInventory, ServerInventory } from "./inventory";
-import { aabbIntersectsBlock, moveWithCollisions } from "./physics";
+import { craftFromGrid } from "./crafting";
+import {
+  addStack,
+  consumeSelected,
+  createStarterInventory,
+  damageSelectedTool,
+  hasRoomFor,
+  moveItem,
+  resetCraftingSlots,
+  serializeInventory,
+  ServerInventory,
+  takeAllItems,
+  takeSelected,
+  transferItem
+} from "./inventory";
+import { aabbIntersectsBlock, CollisionBody, moveWithCollisions, overlapsLiquid } from "./physics";
 import { distanceSquared, vec3, Vec3 } from "./vector";
 import { AuthoritativeWorld } from "./world";
 
+const PLAYER_BODY: CollisionBody = { halfWidth: PLAYER_HALF_WIDTH, height: PLAYER_HEIGHT };
+const ITEM_BODY: CollisionBody = { halfWidth: ITEM_HALF_WIDTH, height: ITEM_HEIGHT };
+// Containers that change on their own, like a smelting furnace, get their state pushed this often.
+const CONTAINER_SYNC_TICKS = 5;
+// Everything else a dead player sends is ignored until they respawn.
+const DEAD_PLAYER_MESSAGES = new Set<ClientMessage["type"]>([
+  "input",
+  "respawn",
+  "hotbar_select",
+  "container_close",
+  "ping",
+  "hello"
+]);
+
 interface PlayerControl {
   seq: number;
   dt: number;
@@ -46,6 +119,7 @@ interface PlayerControl {
   moveZ: number;
   jump: boolean;
   sprint: boolean;
+  use: boolean;
   yaw: number;
   pitch: number;
 }
@@ -59,13 +133,25 @@ interface ServerPlayer {
   yaw: number;
   pitch: number;
   health: number;
+  hunger: HungerState;
+  hazards: HazardState;
+  // Column the player comes back to after dying, unless they have a bed.
+  spawnPoint: Vec3;
+  // Bed the player last used; they respawn on it for as long as it stands.
+  spawnBed: Vec3 | null;
   onGround: boolean;
+  inLiquid: boolean;
+  againstWall: boolean;
   inventory: ServerInventory;
   knownChunks: Set<string>;
   control: PlayerControl;
   lastMineAtMs: number;
   lastAttackAtMs: number;
   lastProcessedSeq: number;
+  // Block entity whose slots the player has open, e.g. a furnace.
+  openContainer: BlockEntityState | null;
+  // Crafting table the open 3x3 grid belongs to; null for the 2x2 grid or when no grid is open.
+  craftingTable: Vec3 | null;
 }
 
 interface ServerMob {
@@ -77,6 +163,17 @@ interface ServerMob {
   attackCooldown: number;
 }
 
+// Dropped items live only on the server; clients just draw them from snapshots.
+interface ServerItem {
+  id: number;
+  stack: SharedItemStack;
+  position: Vec3;
+  velocity: Vec3;
+  onGround: boolean;
+  age: number;
+  pickupDelay: number;
+}
+
 interface PersistedPlayerState {
   x: number;
   y: number;
@@ -87,8 +184,19 @@ interface PersistedPlayerState {
   yaw: number;
   pitch: number;
   health: number;
+  // Missing from saves written before hunger existed.
+  hunger?: number;
+  // Missing from saves written before per-player respawn points existed.
+  spawn?: { x: number; y: number; z: number };
+  bed?: { x: number; y: number; z: number };
   selectedSlot: number;
   hotbar: ServerInventory["hotbar"];
+  // Missing from saves written before the full inventory existed.
+  main?: ServerInventory["main"];
+  armor?: ServerInventory["armor"];
+  offhand?: ServerInventory["offhand"];
+  // Stacks on the crafting grid when the save was made; they go back into storage on joining.
+  crafting?: ServerInventory["crafting"];
 }
 
 export class RoomServer {
@@ -102,23 +210,40 @@ export class RoomServer {
   private readonly socketToPlayerId = new Map<WebSocket, string>();
   private readonly changedBlocks: BlockDelta[] = [];
   private readonly mobs = new Map<number, ServerMob>();
+  private readonly items = new Map<number, ServerItem>();
+  private readonly seed: number;
+  private readonly dayLengthSeconds: number;
+  private readonly keepInventory: boolean;
 
   private tick = 0;
+  private timeOfDay: number;
   private tickHandle: NodeJS.Timeout | null = null;
   private saveTimerTicks = 0;
   private mobSpawnTimerTicks = 0;
   private playerCounter = 0;
   private mobCounter = 0;
+  private itemCounter = 0;
 
-  constructor(seed: number, dataDir: string, roomCode = DEFAULT_ROOM_CODE, maxPlayers = MAX_PLAYERS_PER_ROOM) {
+  constructor(
+    seed: number,
+    dataDir: string,
+    roomCode = DEFAULT_ROOM_CODE,
+    maxPlayers = MAX_PLAYERS_PER_ROOM,
+    dayLengthSeconds = DAY_LENGTH_SECONDS,
+    keepInventory = false
+  ) {
     this.roomCode = roomCode;
     this.maxPlayers = maxPlayers;
+    this.seed = seed;
+    this.dayLengthSeconds = dayLengthSeconds;
+    this.keepInventory = keepInventory;
     this.dataDir = dataDir;
     this.roomDir = path.join(this.dataDir, this.roomCode);
     this.playersDir = path.join(this.roomDir, "players");
 
     fs.mkdirSync(this.playersDir, { recursive: true });
     this.world = new AuthoritativeWorld(seed, this.roomDir);
+    this.timeOfDay = this.readTimeOfDayFromMeta();
     this.writeMeta(seed);
   }
 
@@ -181,6 +306,9 @@ export class RoomServer {
       this.sendRaw(ws, { type: "error", code: "state_error", message: "Unknown player" });
       return;
     }
+    if (player.health <= 0 && !DEAD_PLAYER_MESSAGES.has(message.type)) {
+      return;
+    }
 
     switch (message.type) {
       case "input":
@@ -191,6 +319,7 @@ export class RoomServer {
           moveZ: clamp(message.moveZ, -1, 1),
           jump: message.jump,
           sprint: message.sprint,
+          use: message.use,
           yaw: message.yaw,
           pitch: clamp(message.pitch, -Math.PI / 2 + 0.01, Math.PI / 2 - 0.01)
         };
@@ -202,13 +331,36 @@ export class RoomServer {
         this.handlePlaceAction(player, message.target, message.normal, message.selectedSlot);
         break;
       case "action_craft":
-        if (craftRecipe(player.inventory, message.recipeId)) {
-          this.sendInventory(player);
-        }
+        this.handleCraftAction(player);
         break;
       case "action_attack":
         this.handleAttackAction(player, message.targetEntityId);
         break;
+      case "action_drop":
+        this.handleDropAction(player, message.selectedSlot, message.count);
+        break;
+      case "inventory_move":
+        this.handleInventoryMove(player, message.from, message.to, message.count);
+        break;
+      case "container_transfer":
+        this.handleContainerTransfer(player, message.from);
+        break;
+      case "container_open":
+        this.handleContainerOpen(player, message.target.x, message.target.y, message.target.z);
+        break;
+      case "crafting_open":
+        this.handleCraftingOpen(player, message.table);
+        break;
+      case "container_close":
+        this.closeInventoryScreen(player);
+        this.sendInventory(player);
+        break;
+      case "respawn":
+        this.handleRespawn(player);
+        break;
+      case "set_spawn":
+        this.handleSetSpawn(player, message.target.x, message.target.y, message.target.z);
+        break;
       case "hotbar_select":
         if (message.slot >= 0 && message.slot < HOTBAR_SIZE) {
           player.inventory.selectedSlot = message.slot;
@@ -255,25 +407,26 @@ export class RoomServer {
 
     const id = `p${this.playerCounter++}`;
     const saved = this.loadPlayerState(message.nickname);
-    const spawnPos = saved
-      ? vec3(saved.x, saved.y, saved.z)
+    const spawnPoint = saved?.spawn
+      ? vec3(saved.spawn.x, saved.spawn.y, saved.spawn.z)
       : this.computeSpawnPoint(Math.floor(Math.random() * 16), Math.floor(Math.random() * 16));
     const player: ServerPlayer = {
       id,
       ws,
       nickname: message.nickname,
-      position: spawnPos,
+      position: saved ? vec3(saved.x, saved.y, saved.z) : vec3(spawnPoint.x, spawnPoint.y, spawnPoint.z),
       velocity: saved ? vec3(saved.vx, saved.vy, saved.vz) : vec3(),
       yaw: saved?.yaw ?? 0,
       pitch: saved?.pitch ?? 0,
-      health: saved?.health ?? 20,
+      health: saved?.health ?? PLAYER_MAX_HEALTH,
+      hunger: createHungerState(saved?.hunger),
+      hazards: createHazardState(),
+      spawnPoint,
+      spawnBed: saved?.bed ? vec3(saved.bed.x, saved.bed.y, saved.bed.z) : null,
       onGround: false,
-      inventory: saved
-        ? {
-            selectedSlot: saved.selectedSlot,
-            hotbar: saved.hotbar.map((slot) => (slot ? { item: slot.item, count: slot.count } : null))
-          }
-        : createStarterInventory(),
+      inLiquid: false,
+      againstWall: false,
+      inventory: saved ? restoreInventory(saved) : createStarterInventory(),
       knownChunks: new Set<string>(),
       control: {
         seq: 0,
@@ -282,13 +435,23 @@ export class RoomServer {
         moveZ: 0,
         jump: false,
         sprint: false,
+        use: false,
         yaw: saved?.yaw ?? 0,
         pitch: saved?.pitch ?? 0
       },
       lastMineAtMs: 0,
       lastAttackAtMs: 0,
-      lastProcessedSeq: 0
+      lastProcessedSeq: 0,
+      openContainer: null,
+      craftingTable: null
     };
+    // Nobody has a screen open on joining, so anything saved on the crafting grid goes back into storage.
+    this.closeInventoryScreen(player);
+
+    // Someone who disconnected on the death screen has already lost their items, so they just come back.
+    if (player.health <= 0) {
+      this.respawnPlayer(player);
+    }
 
     this.players.set(id, player);
     this.socketToPlayerId.set(ws, id);
@@ -298,7 +461,9 @@ export class RoomServer {
       serverTick: this.tick,
       seed: this.readSeedFromMeta(),
       roomCode: this.roomCode,
-      maxPlayers: this.maxPlayers
+      maxPlayers: this.maxPlayers,
+      timeOfDay: this.timeOfDay,
+      dayLengthSeconds: this.dayLengthSeconds
     });
     this.sendInventory(player);
     this.sendVisibleChunks(player);
@@ -316,17 +481,30 @@ export class RoomServer {
       return;
     }
     const now = Date.now();
-    const hardness = Math.max(0.2, BLOCK_DEFS[block].hardness);
-    const minIntervalMs = hardness * 180;
+    const tool = player.inventory.hotbar[player.inventory.selectedSlot]?.item;
+    const minIntervalMs = getMiningSeconds(block, tool) * 180;
     if (now - player.lastMineAtMs < minIntervalMs) {
       return;
     }
+    const entity = this.world.getBlockEntity(bx, by, bz);
     if (this.world.setBlock(bx, by, bz, BlockId.Air)) {
       player.lastMineAtMs = now;
-      this.changedBlocks.push({ x: bx, y: by, z: bz, block: BlockId.Air });
-      const drop = blockIdToDrop(block);
+      this.changedBlocks.push({ x: bx, y: by, z: bz, block: BlockId.Air, meta: 0 });
+      const center = vec3(bx + 0.5, by + 0.25, bz + 0.5);
+      const drop = canHarvest(block, tool) ? blockIdToDrop(block) : null;
       if (drop) {
-        addItem(player.inventory, drop, 1);
+        this.spawnItem(createItemStack(drop, 1), center, ITEM_BLOCK_PICKUP_DELAY);
+      }
+      const bonus = rollBonusDrop(block);
+      if (bonus) {
+        this.spawnItem(createItemStack(bonus, 1), center, ITEM_BLOCK_PICKUP_DELAY);
+      }
+      // Whatever the block held spills out even when the block itself drops nothing.
+      for (const stack of entity ? getBlockEntityDrops(entity) : []) {
+        this.spawnItem({ ...stack }, center, ITEM_BLOCK_PICKUP_DELAY);
+      }
+      // Plants that break instantly don't wear tools down.
+      if (BLOCK_DEFS[block].hardness > 0 && damageSelectedTool(player.inventory, 1)) {
         this.sendInventory(player);
       }
     }
@@ -352,9 +530,17 @@ export class RoomServer {
       return;
     }
 
-    const px = Math.floor(target.x + normal.x);
-    const py = Math.floor(target.y + normal.y);
-    const pz = Math.floor(target.z + normal.z);
+    const tx = Math.floor(target.x);
+    const ty = Math.floor(target.y);
+    const tz = Math.floor(target.z);
+    if (!this.withinReach(player, tx, ty, tz, 6.2)) {
+      return;
+    }
+    // Aiming straight at a plant puts the block where the plant stands rather than on top of it.
+    const intoTarget = isReplaceableBlock(this.world.getBlock(tx, ty, tz));
+    const px = intoTarget ? tx : Math.floor(target.x + normal.x);
+    const py = intoTarget ? ty : Math.floor(target.y + normal.y);
+    const pz = intoTarget ? tz : Math.floor(target.z + normal.z);
     if (py < 0 || py >= WORLD_HEIGHT) {
       return;
     }
@@ -363,8 +549,7 @@ export class RoomServer {
       return;
     }
 
-    const existing = this.world.getBlock(px, py, pz);
-    if (existing !== BlockId.Air && existing !== BlockId.Water) {
+    if (!isReplaceableBlock(this.world.getBlock(px, py, pz))) {
       return;
     }
 
@@ -384,7 +569,7 @@ export class RoomServer {
       return;
     }
     if (this.world.setBlock(px, py, pz, placeBlock)) {
-      this.changedBlocks.push({ x: px, y: py, z: pz, block: placeBlock });
+      this.changedBlocks.push({ x: px, y: py, z: pz, block: placeBlock, meta: 0 });
       this.sendInventory(player);
     }
   }
@@ -406,18 +591,177 @@ export class RoomServer {
     }
     player.lastAttackAtMs = now;
     const slot = player.inventory.hotbar[player.inventory.selectedSlot];
-    const damage = slot?.item === "pickaxe" ? 4 : 2;
-    mob.health -= damage;
+    mob.health -= getAttackDamage(slot?.item);
+    if (damageSelectedTool(player.inventory, 1)) {
+      this.sendInventory(player);
+    }
     if (mob.health <= 0) {
       this.mobs.delete(mob.id);
-      addItem(player.inventory, "dirt", 1);
-      this.sendInventory(player);
+      const burning = isBurningInSunlight(this, mob.position, MOB_HEIGHT, getDaylight(this.timeOfDay));
+      const dropAt = vec3(mob.position.x, mob.position.y + 0.5, mob.position.z);
+      this.spawnItem(createItemStack(getMobMeatDrop(burning), 1), dropAt, ITEM_BLOCK_PICKUP_DELAY);
+    }
+  }
+
+  private handleCraftingOpen(player: ServerPlayer, table?: Vec3): void {
+    this.closeInventoryScreen(player);
+    const at = table ? vec3(Math.floor(table.x), Math.floor(table.y), Math.floor(table.z)) : null;
+    if (at && !this.isCraftingTableUsable(player, at)) {
+      this.send(player, { type: "container_closed" });
+    } else {
+      player.craftingTable = at;
+      resetCraftingSlots(player.inventory, at ? TABLE_GRID_SIZE : INVENTORY_GRID_SIZE);
+    }
+    this.sendInventory(player);
+  }
+
+  // Checked in reach before the block is read, so a far-away table never gets its chunk loaded.
+  private isCraftingTableUsable(player: ServerPlayer, table: Vec3): boolean {
+    return (
+      this.withinReach(player, table.x, table.y, table.z, BLOCK_USE_REACH) &&
+      this.world.getBlock(table.x, table.y, table.z) === BlockId.CraftingTable
+    );
+  }
+
+  // Crafts from the stacks on the player's own grid, so only items they actually moved there get used.
+  private handleCraftAction(player: ServerPlayer): void {
+    if (player.craftingTable && !this.isCraftingTableUsable(player, player.craftingTable)) {
+      return;
+    }
+    const output = craftFromGrid(player.inventory);
+    if (!output) {
+      return;
+    }
+    const remaining = addStack(player.inventory, output);
+    if (remaining > 0) {
+      const feet = vec3(player.position.x, player.position.y + 0.5, player.position.z);
+      this.spawnItem({ ...output, count: remaining }, feet, ITEM_THROW_PICKUP_DELAY);
+    }
+    this.sendInventory(player);
+  }
+
+  // Shuts whatever the player's inventory screen had open. Stacks left on the crafting grid go back into
+  // storage, and whatever doesn't fit drops at the player's feet.
+  private closeInventoryScreen(player: ServerPlayer): void {
+    player.openContainer = null;
+    player.craftingTable = null;
+    for (const stack of resetCraftingSlots(player.inventory)) {
+      const remaining = addStack(player.inventory, stack);
+      if (remaining > 0) {
+        const feet = vec3(player.position.x, player.position.y + 0.5, player.position.z);
+        this.spawnItem({ ...stack, count: remaining }, feet, ITEM_THROW_PICKUP_DELAY);
+      }
+    }
+  }
+
+  private handleInventoryMove(player: ServerPlayer, from: SlotRef, to: SlotRef, count: number): void {
+    const entity = player.openContainer;
+    const container = entity ? getBlockEntityContainer(entity) : null;
+    if (moveItem(player.inventory, from, to, count, container) && entity) {
+      this.world.markBlockEntityChanged(entity);
+      this.sendContainerToViewers(entity);
+    }
+    // Always answer so a rejected move snaps the client's screen back to the server's view.
+    this.sendInventory(player);
+  }
+
+  private handleContainerTransfer(player: ServerPlayer, from: SlotRef): void {
+    const entity = player.openContainer;
+    if (entity && transferItem(player.inventory, from, getBlockEntityContainer(entity))) {
+      this.world.markBlockEntityChanged(entity);
+      this.sendContainerToViewers(entity);
+    }
+    this.sendInventory(player);
+  }
+
+  private handleContainerOpen(player: ServerPlayer, x: number, y: number, z: number): void {
+    const bx = Math.floor(x);
+    const by = Math.floor(y);
+    const bz = Math.floor(z);
+    // Reach first: looking the block up loads its chunk, which must never happen for far-away targets.
+    const entity = this.withinReach(player, bx, by, bz, BLOCK_USE_REACH) ? this.world.getBlockEntity(bx, by, bz) : null;
+    if (!entity) {
+      this.send(player, { type: "container_closed" });
+      return;
+    }
+    player.openContainer = entity;
+    this.send(player, { type: "container_update", entity });
+  }
+
+  // Everyone looking into the same block sees each other's changes.
+  private sendContainerToViewers(entity: BlockEntityState): void {
+    for (const player of this.players.values()) {
+      if (player.openContainer === entity) {
+        this.send(player, { type: "container_update", entity });
+      }
+    }
+  }
+
+  // Closes containers and crafting tables that were broken or left behind and streams progress, such as
+  // smelting, to viewers.
+  private updateOpenContainers(): void {
+    const sendProgress = this.tick % CONTAINER_SYNC_TICKS === 0;
+    for (const player of this.players.values()) {
+      if (player.craftingTable && !this.isCraftingTableUsable(player, player.craftingTable)) {
+        this.closeInventoryScreen(player);
+        this.send(player, { type: "container_closed" });
+        this.sendInventory(player);
+        continue;
+      }
+      const entity = player.openContainer;
+      if (!entity) {
+        continue;
+      }
+      if (
+        this.world.getBlockEntity(entity.x, entity.y, entity.z) !== entity ||
+        !this.withinReach(player, entity.x, entity.y, entity.z, BLOCK_USE_REACH)
+      ) {
+        player.openContainer = null;
+        this.send(player, { type: "container_closed" });
+      } else if (sendProgress && hasBlockEntityProgress(entity)) {
+        this.send(player, { type: "container_update", entity });
+      }
+    }
+  }
+
+  private handleDropAction(player: ServerPlayer, selectedSlot: number, count: number): void {
+    if (selectedSlot < 0 || selectedSlot >= HOTBAR_SIZE) {
+      return;
+    }
+    player.inventory.selectedSlot = selectedSlot;
+    const stack = takeSelected(player.inventory, count);
+    if (!stack) {
+      return;
+    }
+    const origin = vec3(player.position.x, player.position.y + PLAYER_EYE_HEIGHT - 0.3, player.position.z);
+    this.spawnItem(stack, origin, ITEM_THROW_PICKUP_DELAY, getThrowVelocity(player.yaw, player.pitch));
+    this.sendInventory(player);
+  }
+
+  private spawnItem(stack: SharedItemStack, position: Vec3, pickupDelay: number, velocity = getPopVelocity()): void {
+    if (this.items.size >= MAX_ITEM_ENTITIES) {
+      // Maps keep insertion order, so the first key is the oldest item.
+      const oldest = this.items.keys().next().value;
+      if (oldest !== undefined) {
+        this.items.delete(oldest);
+      }
     }
+    const item: ServerItem = {
+      id: this.itemCounter++,
+      stack,
+      position,
+      velocity: vec3(velocity.x, velocity.y, velocity.z),
+      onGround: false,
+      age: 0,
+      pickupDelay
+    };
+    this.items.set(item.id, item);
   }
 
   private updateTick(): void {
     this.tick += 1;
     const dt = 1 / SERVER_TICK_RATE;
+    this.timeOfDay = advanceTimeOfDay(this.timeOfDay, dt, this.dayLengthSeconds);
 
     this.updatePlayers(dt);
     this.mobSpawnTimerTicks += 1;
@@ -426,6 +770,12 @@ export class RoomServer {
       this.trySpawnMob();
     }
     this.updateMobs(dt);
+    this.updateItems(dt);
+    for (const change of this.world.updateFluids(dt)) {
+      this.changedBlocks.push(change);
+    }
+    this.world.updateBlockEntities(dt);
+    this.updateOpenContainers();
 
     this.sendChunksIfNeeded();
     if (this.tick % Math.max(1, Math.floor(SERVER_TICK_RATE / SERVER_SNAPSHOT_RATE)) === 0) {
@@ -441,11 +791,15 @@ export class RoomServer {
 
   private updatePlayers(dt: number): void {
     for (const player of this.players.values()) {
+      if (player.health <= 0) {
+        continue;
+      }
       const control = player.control;
       player.yaw = control.yaw;
       player.pitch = control.pitch;
 
-      const speed = control.sprint ? PLAYER_SPRINT_SPEED : PLAYER_WALK_SPEED;
+      player.inLiquid = overlapsLiquid(this, player.position, PLAYER_BODY);
+      const speed = getMoveSpeed(control.sprint, player.inLiquid);
       const forwardX = Math.sin(player.yaw);
       const forwardZ = Math.cos(player.yaw);
       const rightX = forwardZ;
@@ -456,37 +810,132 @@ export class RoomServer {
       const step = Math.min(1, accel * dt);
       player.velocity.x += (desiredX * speed - player.velocity.x) * step;
       player.velocity.z += (desiredZ * speed - player.velocity.z) * step;
-      player.velocity.y -= GRAVITY * dt;
-      if (control.jump && player.onGround) {
-        player.velocity.y = PLAYER_JUMP_SPEED;
-        player.onGround = false;
-      }
+      const vertical = {
+        jump: control.jump,
+        onGround: player.onGround,
+        inLiquid: player.inLiquid,
+        againstWall: player.againstWall
+      };
+      const moving = control.moveX !== 0 || control.moveZ !== 0;
+      const activity = getMovementActivity(control.sprint, moving, vertical);
+      applyVerticalMovement(player.velocity, dt, vertical);
 
-      const collision = moveWithCollisions(player.position, player.velocity, dt, this, {
-        halfWidth: PLAYER_HALF_WIDTH,
-        height: PLAYER_HEIGHT
-      });
+      const collision = moveWithCollisions(player.position, player.velocity, dt, this, PLAYER_BODY);
       player.onGround = collision.onGround;
+      player.againstWall = collision.hitX || collision.hitZ;
+      // Hazards read this after the move, so landing in water this step already counts as being in it.
+      player.inLiquid = overlapsLiquid(this, player.position, PLAYER_BODY);
       player.lastProcessedSeq = control.seq;
 
-      if (player.position.y < -20 || player.health <= 0) {
-        player.health = 20;
-        const spawn = this.computeSpawnPoint(0, 0);
-        player.position.x = spawn.x;
-        player.position.y = spawn.y;
-        player.position.z = spawn.z;
-        player.velocity.x = 0;
-        player.velocity.y = 0;
-        player.velocity.z = 0;
+      const healthChange = tickHunger(player.hunger, dt, activity, player.health);
+      if (healthChange > 0) {
+        player.health = Math.min(PLAYER_MAX_HEALTH, player.health + healthChange);
+      } else if (healthChange < 0) {
+        this.damagePlayer(player, -healthChange, "starvation");
+      }
+      this.updateEating(player, dt);
+      const sample = { position: player.position, onGround: player.onGround, inLiquid: player.inLiquid };
+      for (const event of tickHazards(player.hazards, this, sample, dt)) {
+        this.damagePlayer(player, event.amount, event.cause);
+      }
+
+      if (player.position.y < -20) {
+        this.damagePlayer(player, player.health, "void");
+      }
+    }
+  }
+
+  private updateEating(player: ServerPlayer, dt: number): void {
+    const food = player.inventory.hotbar[player.inventory.selectedSlot]?.item ?? null;
+    if (updateEating(player.hunger, food, player.control.use, dt) && food && consumeSelected(player.inventory, 1)) {
+      eatFood(player.hunger, food);
+      this.sendInventory(player);
+    }
+  }
+
+  private damagePlayer(player: ServerPlayer, amount: number, cause: DamageCause): void {
+    if (player.health <= 0) {
+      return;
+    }
+    const taken = getDamageTaken(amount, cause, getArmorDefense(player.inventory.armor));
+    player.health = Math.max(0, player.health - taken);
+    this.send(player, { type: "event", event: { kind: "damage", cause, amount: taken } });
+    if (player.health <= 0) {
+      this.killPlayer(player, cause);
+    }
+  }
+
+  // The player stays down, dropping their items where they fell, until they ask to respawn.
+  private killPlayer(player: ServerPlayer, cause: DamageCause): void {
+    player.velocity.x = 0;
+    player.velocity.y = 0;
+    player.velocity.z = 0;
+    player.hunger.eatTime = 0;
+    if (player.openContainer) {
+      this.send(player, { type: "container_closed" });
+    }
+    this.closeInventoryScreen(player);
+    if (!this.keepInventory) {
+      const dropAt = vec3(player.position.x, player.position.y + 0.5, player.position.z);
+      for (const stack of takeAllItems(player.inventory)) {
+        this.spawnItem(stack, vec3(dropAt.x, dropAt.y, dropAt.z), ITEM_BLOCK_PICKUP_DELAY);
       }
     }
+    this.sendInventory(player);
+    this.send(player, { type: "event", event: { kind: "death", cause } });
+  }
+
+  private handleRespawn(player: ServerPlayer): void {
+    if (player.health > 0) {
+      return;
+    }
+    this.respawnPlayer(player);
+  }
+
+  private handleSetSpawn(player: ServerPlayer, x: number, y: number, z: number): void {
+    const bx = Math.floor(x);
+    const by = Math.floor(y);
+    const bz = Math.floor(z);
+    if (!this.withinReach(player, bx, by, bz, BLOCK_USE_REACH) || this.world.getBlock(bx, by, bz) !== BlockId.Bed) {
+      return;
+    }
+    player.spawnBed = vec3(bx, by, bz);
+    this.send(player, { type: "event", event: { kind: "spawn_set" } });
+  }
+
+  private respawnPlayer(player: ServerPlayer): void {
+    const spawn = this.findRespawnPosition(player);
+    player.health = PLAYER_MAX_HEALTH;
+    player.hunger = createHungerState();
+    player.hazards = createHazardState();
+    player.position.x = spawn.x;
+    player.position.y = spawn.y;
+    player.position.z = spawn.z;
+    player.velocity.x = 0;
+    player.velocity.y = 0;
+    player.velocity.z = 0;
+  }
+
+  // On top of the player's bed if it still stands, otherwise on the surface of their spawn column, looked up
+  // again since the terrain may have changed.
+  private findRespawnPosition(player: ServerPlayer): Vec3 {
+    const bed = player.spawnBed;
+    if (bed && this.world.getBlock(bed.x, bed.y, bed.z) === BlockId.Bed) {
+      return vec3(bed.x + 0.5, bed.y + 1, bed.z + 0.5);
+    }
+    player.spawnBed = null;
+    return this.computeSpawnPoint(Math.floor(player.spawnPoint.x), Math.floor(player.spawnPoint.z));
   }
 
   private updateMobs(dt: number): void {
+    const daylight = getDaylight(this.timeOfDay);
     for (const mob of this.mobs.values()) {
       let targetPlayer: ServerPlayer | null = null;
       let bestDistSq = Number.POSITIVE_INFINITY;
       for (const player of this.players.values()) {
+        if (player.health <= 0) {
+          continue;
+        }
         const distSq = distanceSquared(player.position, mob.position);
         if (distSq < bestDistSq) {
           bestDistSq = distSq;
@@ -515,18 +964,71 @@ export class RoomServer {
         mob.velocity.y = 6.0;
       }
 
+      if (isBurningInSunlight(this, mob.position, MOB_HEIGHT, daylight)) {
+        mob.health -= MOB_SUNLIGHT_DAMAGE_PER_SECOND * dt;
+        if (mob.health <= 0) {
+          this.mobs.delete(mob.id);
+          const dropAt = vec3(mob.position.x, mob.position.y + 0.5, mob.position.z);
+          this.spawnItem(createItemStack(getMobMeatDrop(true), 1), dropAt, ITEM_BLOCK_PICKUP_DELAY);
+          continue;
+        }
+      }
+
       if (mob.attackCooldown > 0) {
         mob.attackCooldown -= dt;
       }
       if (targetPlayer && bestDistSq < 1.6 * 1.6 && mob.attackCooldown <= 0) {
-        targetPlayer.health = Math.max(0, targetPlayer.health - 2);
         mob.attackCooldown = 1.0;
-        this.send(targetPlayer, { type: "event", kind: "damage", payload: { amount: 2 } });
-        if (targetPlayer.health <= 0) {
-          this.send(targetPlayer, { type: "event", kind: "death", payload: {} });
-        }
+        this.damagePlayer(targetPlayer, 2, "mob");
+      }
+    }
+  }
+
+  private updateItems(dt: number): void {
+    for (const item of this.items.values()) {
+      item.age += dt;
+      if (item.age >= ITEM_DESPAWN_SECONDS) {
+        this.items.delete(item.id);
+        continue;
+      }
+
+      applyItemGravity(item.velocity, dt, item.onGround, overlapsLiquid(this, item.position, ITEM_BODY));
+      const collector = item.age >= item.pickupDelay ? this.findItemCollector(item) : null;
+      if (collector) {
+        applyItemMagnet(item.velocity, item.position, collector.position, dt);
+      }
+      item.onGround = moveWithCollisions(item.position, item.velocity, dt, this, ITEM_BODY).onGround;
+
+      if (!collector || !isInPickupRange(item.position, collector.position)) {
+        continue;
+      }
+      const remaining = addStack(collector.inventory, item.stack);
+      if (remaining < item.stack.count) {
+        this.sendInventory(collector);
+      }
+      if (remaining === 0) {
+        this.items.delete(item.id);
+      } else {
+        item.stack.count = remaining;
+      }
+    }
+  }
+
+  // Nearest living player within magnet range who still has room for the item.
+  private findItemCollector(item: ServerItem): ServerPlayer | null {
+    let best: ServerPlayer | null = null;
+    let bestDistSq = Number.POSITIVE_INFINITY;
+    for (const player of this.players.values()) {
+      if (player.health <= 0 || !isInMagnetRange(item.position, player.position)) {
+        continue;
+      }
+      const distSq = distanceSquared(player.position, item.position);
+      if (distSq < bestDistSq && hasRoomFor(player.inventory, item.stack.item)) {
+        best = player;
+        bestDistSq = distSq;
       }
     }
+    return best;
   }
 
   private trySpawnMob(): void {
@@ -535,12 +1037,12 @@ export class RoomServer {
     }
     const players = Array.from(this.players.values());
     const target = players[Math.floor(Math.random() * players.length)];
-    const angle = Math.random() * Math.PI * 2;
-    const radius = 10 + Math.random() * 8;
-    const x = Math.floor(target.position.x + Math.cos(angle) * radius);
-    const z = Math.floor(target.position.z + Math.sin(angle) * radius);
-    const y = this.findSurfaceY(x, z) + 1;
-    if (Math.abs(y - target.position.y) > 20) {
+    const { x, z } = pickSpawnColumn(target.position);
+    if (!this.world.isLoaded(x, z) || !isOutsideSpawnRadius(x, z, players.map((player) => player.position))) {
+      return;
+    }
+    const y = findHostileSpawnY(this, x, z, target.position.y, getDaylight(this.timeOfDay));
+    if (y === null) {
       return;
     }
     const mob: ServerMob = {
@@ -576,7 +1078,8 @@ export class RoomServer {
           type: "chunk_data",
           cx,
           cz,
-          blocksBase64: this.world.encodeChunkBase64(cx, cz)
+          blocksBase64: this.world.encodeChunkBase64(cx, cz),
+          metaBase64: this.world.encodeChunkMetaBase64(cx, cz)
         });
         player.knownChunks.add(key);
       }
@@ -605,6 +1108,8 @@ export class RoomServer {
         yaw: player.yaw,
         pitch: player.pitch,
         health: player.health,
+        hunger: player.hunger.hunger,
+        air: player.hazards.air,
         hotbar: inv.hotbar,
         selectedSlot: inv.selectedSlot,
         lastProcessedSeq: player.lastProcessedSeq
@@ -617,13 +1122,22 @@ export class RoomServer {
       z: mob.position.z,
       health: mob.health
     }));
+    const items: NetItemState[] = Array.from(this.items.values()).map((item) => ({
+      id: item.id,
+      x: item.position.x,
+      y: item.position.y,
+      z: item.position.z,
+      stack: { ...item.stack }
+    }));
     const deltas = this.changedBlocks.splice(0, this.changedBlocks.length);
 
     const snapshot: ServerMessage = {
       type: "snapshot",
       tick: this.tick,
+      timeOfDay: this.timeOfDay,
       players,
       mobs,
+      items,
       changedBlocks: deltas
     };
     for (const player of this.players.values()) {
@@ -632,11 +1146,9 @@ export class RoomServer {
   }
 
   private sendInventory(player: ServerPlayer): void {
-    const inv = serializeInventory(player.inventory);
     this.send(player, {
       type: "inventory_update",
-      hotbar: inv.hotbar,
-      selectedSlot: inv.selectedSlot
+      ...serializeInventory(player.inventory)
     });
   }
 
@@ -656,6 +1168,7 @@ export class RoomServer {
     if (!player) {
       return;
     }
+    this.closeInventoryScreen(player);
     this.persistPlayer(player);
     this.players.delete(playerId);
     this.socketToPlayerId.delete(player.ws);
@@ -663,6 +1176,7 @@ export class RoomServer {
 
   private persistAll(): void {
     this.world.flushDirtyChunks();
+    this.writeMeta(this.seed);
     for (const player of this.players.values()) {
       this.persistPlayer(player);
     }
@@ -679,8 +1193,10 @@ export class RoomServer {
       yaw: player.yaw,
       pitch: player.pitch,
       health: player.health,
-      selectedSlot: player.inventory.selectedSlot,
-      hotbar: player.inventory.hotbar.map((slot) => (slot ? { item: slot.item, count: slot.count } : null))
+      hunger: player.hunger.hunger,
+      spawn: { x: player.spawnPoint.x, y: player.spawnPoint.y, z: player.spawnPoint.z },
+      bed: player.spawnBed ? { x: player.spawnBed.x, y: player.spawnBed.y, z: player.spawnBed.z } : undefined,
+      ...serializeInventory(player.inventory)
     };
     fs.writeFileSync(this.playerFile(player.nickname), JSON.stringify(payload, null, 2), "utf8");
   }
@@ -727,6 +1243,18 @@ export class RoomServer {
     return isSolidBlock(block);
   }
 
+  isLiquid(x: number, y: number, z: number): boolean {
+    return isLiquidBlock(this.world.getBlock(x, y, z));
+  }
+
+  isSuffocating(x: number, y: number, z: number): boolean {
+    return isSuffocatingBlock(this.world.getBlock(x, y, z));
+  }
+
+  getLight(x: number, y: number, z: number): number {
+    return this.world.getLight(x, y, z);
+  }
+
   private computeSpawnPoint(x: number, z: number): Vec3 {
     const y = this.findSurfaceY(x, z) + 2;
     return vec3(x + 0.5, y, z + 0.5);
@@ -736,11 +1264,25 @@ export class RoomServer {
     const metaPath = path.join(this.roomDir, "meta.json");
     fs.writeFileSync(
       metaPath,
-      JSON.stringify({ roomCode: this.roomCode, seed, protocolVersion: PROTOCOL_VERSION }, null, 2),
+      JSON.stringify(
+        { roomCode: this.roomCode, seed, protocolVersion: PROTOCOL_VERSION, timeOfDay: this.timeOfDay },
+        null,
+        2
+      ),
       "utf8"
     );
   }
 
+  private readTimeOfDayFromMeta(): number {
+    try {
+      const metaPath = path.join(this.roomDir, "meta.json");
+      const parsed = JSON.parse(fs.readFileSync(metaPath, "utf8")) as { timeOfDay?: number };
+      return typeof parsed.timeOfDay === "number" ? parsed.timeOfDay : START_TIME_OF_DAY;
+    } catch {
+      return START_TIME_OF_DAY;
+    }
+  }
+
   private readSeedFromMeta(): number {
     try {
       const metaPath = path.join(this.roomDir, "meta.json");
@@ -752,6 +1294,23 @@ export class RoomServer {
   }
 }
 
+function restoreInventory(saved: PersistedPlayerState): ServerInventory {
+  const inventory = createStarterInventory();
+  inventory.selectedSlot = saved.selectedSlot;
+  for (const section of INVENTORY_SECTIONS) {
+    const slots = inventory[section];
+    const stored = saved[section] ?? [];
+    for (let i = 0; i < slots.length; i += 1) {
+      const slot = stored[i];
+      slots[i] = slot ? { ...slot, item: upgradeLegacyItemId(slot.item) } : null;
+    }
+  }
+  inventory.crafting = (saved.crafting ?? []).map((slot) =>
+    slot ? { ...slot, item: upgradeLegacyItemId(slot.item) } : null
+  );
+  return inventory;
+}
+
 function clamp(value: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, value));
 }
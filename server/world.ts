@@ -1,11 +1,16 @@
 import fs from "node:fs";
 import path from "node:path";
 import { CHUNK_SIZE, WORLD_HEIGHT } from "../src/config";
+import { createBlockEntity, parseBlockEntities, tickBlockEntity } from "../src/shared/blockEntities";
+import { BlockEntityState } from "../src/shared/protocol";
 import { BlockId } from "../src/types";
 import { chunkKey, ChunkData } from "../src/world/chunk";
+import { FluidChange, FluidSimulator } from "../src/world/fluids";
 import { WorldGenerator } from "../src/world/generator";
+import { LightEngine } from "../src/world/lighting";
 
 const BLOCKS_PER_CHUNK = CHUNK_SIZE * CHUNK_SIZE * WORLD_HEIGHT;
+const BLOCK_BYTES = BLOCKS_PER_CHUNK * Uint16Array.BYTES_PER_ELEMENT;
 
 export class AuthoritativeWorld {
   private readonly generator: WorldGenerator;
@@ -13,6 +18,12 @@ export class AuthoritativeWorld {
   private readonly chunksDir: string;
   private readonly chunks = new Map<string, ChunkData>();
   private readonly dirty = new Set<string>();
+  private readonly fluids = new FluidSimulator(this);
+  // Clients light their own meshes; the server keeps light only for gameplay rules such as mob spawning.
+  private readonly light = new LightEngine({
+    getLoadedChunk: (cx, cz) => this.chunks.get(chunkKey(cx, cz)) ?? null,
+    onChunkLightChanged: () => undefined
+  });
 
   constructor(seed: number, roomDir: string) {
     this.generator = new WorldGenerator(seed);
@@ -35,7 +46,23 @@ export class AuthoritativeWorld {
     return chunk.get(lx, y, lz);
   }
 
-  setBlock(x: number, y: number, z: number, block: BlockId): boolean {
+  getBlockMeta(x: number, y: number, z: number): number {
+    if (y < 0 || y >= WORLD_HEIGHT) {
+      return 0;
+    }
+    const fx = Math.floor(x);
+    const fz = Math.floor(z);
+    const chunk = this.getChunk(Math.floor(fx / CHUNK_SIZE), Math.floor(fz / CHUNK_SIZE));
+    return chunk.getMeta(mod(fx, CHUNK_SIZE), y, mod(fz, CHUNK_SIZE));
+  }
+
+  isLoaded(x: number, z: number): boolean {
+    const cx = Math.floor(Math.floor(x) / CHUNK_SIZE);
+    const cz = Math.floor(Math.floor(z) / CHUNK_SIZE);
+    return this.chunks.has(chunkKey(cx, cz));
+  }
+
+  setBlock(x: number, y: number, z: number, block: BlockId, meta = 0): boolean {
     if (y < 0 || y >= WORLD_HEIGHT) {
       return false;
     }
@@ -48,19 +75,62 @@ export class AuthoritativeWorld {
     const key = chunkKey(cx, cz);
     const chunk = this.getChunk(cx, cz);
     const old = chunk.get(lx, y, lz);
-    if (old === block) {
+    if (old === block && chunk.getMeta(lx, y, lz) === meta) {
       return false;
     }
     chunk.set(lx, y, lz, block);
+    chunk.setMeta(lx, y, lz, meta);
+    if (old !== block) {
+      chunk.setBlockEntity(lx, y, lz, createBlockEntity(block, fx, y, fz));
+    }
     this.dirty.add(key);
+    this.light.updateBlock(fx, y, fz);
+    this.fluids.scheduleAround(fx, y, fz);
     return true;
   }
 
+  getBlockEntity(x: number, y: number, z: number): BlockEntityState | null {
+    const fx = Math.floor(x);
+    const fz = Math.floor(z);
+    const chunk = this.getChunk(Math.floor(fx / CHUNK_SIZE), Math.floor(fz / CHUNK_SIZE));
+    return chunk.getBlockEntity(mod(fx, CHUNK_SIZE), Math.floor(y), mod(fz, CHUNK_SIZE));
+  }
+
+  markBlockEntityChanged(entity: BlockEntityState): void {
+    this.dirty.add(chunkKey(Math.floor(entity.x / CHUNK_SIZE), Math.floor(entity.z / CHUNK_SIZE)));
+  }
+
+  // Ticks every block entity in the loaded chunks, whether or not a player has it open.
+  updateBlockEntities(dt: number): void {
+    for (const [key, chunk] of this.chunks) {
+      for (const entity of chunk.blockEntities.values()) {
+        if (tickBlockEntity(entity, dt)) {
+          this.dirty.add(key);
+        }
+      }
+    }
+  }
+
+  // Packed light at a position in an already loaded chunk; never loads or generates chunks.
+  getLight(x: number, y: number, z: number): number {
+    return this.light.getLight(Math.floor(x), Math.floor(y), Math.floor(z));
+  }
+
+  // Advances flowing water; the returned edits still need to reach clients.
+  updateFluids(dt: number): FluidChange[] {
+    return this.fluids.update(dt);
+  }
+
   encodeChunkBase64(cx: number, cz: number): string {
     const chunk = this.getChunk(cx, cz);
     return Buffer.from(chunk.blocks.buffer).toString("base64");
   }
 
+  encodeChunkMetaBase64(cx: number, cz: number): string {
+    const chunk = this.getChunk(cx, cz);
+    return Buffer.from(chunk.meta.buffer).toString("base64");
+  }
+
   flushDirtyChunks(): void {
     for (const key of this.dirty) {
       const [cxString, czString] = key.split(":");
@@ -71,7 +141,8 @@ export class AuthoritativeWorld {
         continue;
       }
       const filePath = this.chunkPath(cx, cz);
-      fs.writeFileSync(filePath, Buffer.from(chunk.blocks.buffer));
+      fs.writeFileSync(filePath, Buffer.concat([Buffer.from(chunk.blocks.buffer), Buffer.from(chunk.meta.buffer)]));
+      this.writeBlockEntities(cx, cz, chunk);
     }
     this.dirty.clear();
   }
@@ -87,10 +158,12 @@ export class AuthoritativeWorld {
     let chunk: ChunkData;
     if (fs.existsSync(filePath)) {
       const raw = fs.readFileSync(filePath);
-      const length = raw.byteLength / Uint16Array.BYTES_PER_ELEMENT;
-      if (length === BLOCKS_PER_CHUNK) {
+      // Older chunk files hold only block ids; newer ones append one metadata byte per block.
+      if (raw.byteLength === BLOCK_BYTES || raw.byteLength === BLOCK_BYTES + BLOCKS_PER_CHUNK) {
         const bytes = raw.buffer.slice(raw.byteOffset, raw.byteOffset + raw.byteLength);
-        chunk = new ChunkData(cx, cz, new Uint16Array(bytes.slice(0)));
+        const meta = raw.byteLength > BLOCK_BYTES ? new Uint8Array(bytes.slice(BLOCK_BYTES)) : undefined;
+        chunk = new ChunkData(cx, cz, new Uint16Array(bytes.slice(0, BLOCK_BYTES)), meta);
+        chunk.restoreBlockEntities(this.readBlockEntities(cx, cz));
       } else {
         chunk = this.generator.generateChunk(cx, cz);
       }
@@ -99,12 +172,41 @@ export class AuthoritativeWorld {
     }
 
     this.chunks.set(key, chunk);
+    this.light.lightChunk(chunk);
+    this.light.stitchChunk(cx, cz);
+    this.fluids.onChunkLoaded(cx, cz);
     return chunk;
   }
 
   private chunkPath(cx: number, cz: number): string {
     return path.join(this.chunksDir, `${cx}_${cz}.bin`);
   }
+
+  // Block entities sit next to the chunk's block file as JSON; chunks without any have no file.
+  private blockEntitiesPath(cx: number, cz: number): string {
+    return path.join(this.chunksDir, `${cx}_${cz}.entities.json`);
+  }
+
+  private writeBlockEntities(cx: number, cz: number, chunk: ChunkData): void {
+    const filePath = this.blockEntitiesPath(cx, cz);
+    if (chunk.blockEntities.size > 0) {
+      fs.writeFileSync(filePath, JSON.stringify([...chunk.blockEntities.values()]));
+    } else if (fs.existsSync(filePath)) {
+      fs.rmSync(filePath);
+    }
+  }
+
+  private readBlockEntities(cx: number, cz: number): BlockEntityState[] {
+    const filePath = this.blockEntitiesPath(cx, cz);
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+    try {
+      return parseBlockEntities(JSON.parse(fs.readFileSync(filePath, "utf8")));
+    } catch {
+      return [];
+    }
+  }
 }
 
 function mod(a: number, b: number): number {
@@ -0,0 +1,44 @@
+import { ArmorItemId, ArmorMaterial, ArmorPiece, ItemId, ItemStack } from "./types";
+
+export interface ArmorDefinition {
+  id: ArmorItemId;
+  piece: ArmorPiece;
+  material: ArmorMaterial;
+  // Armor slot the piece is worn in, 0 head to 3 feet.
+  slot: number;
+  defense: number;
+}
+
+// Listed in armor slot order.
+export const ARMOR_PIECES: ArmorPiece[] = ["helmet", "chestplate", "leggings", "boots"];
+export const ARMOR_MATERIALS: ArmorMaterial[] = ["iron", "diamond"];
+
+// Defense points per piece, in ARMOR_PIECES order.
+const MATERIAL_DEFENSE: Record<ArmorMaterial, number[]> = {
+  iron: [2, 6, 5, 2],
+  diamond: [3, 8, 6, 3]
+};
+
+// Each point of defense takes this share off the damage it blocks.
+const REDUCTION_PER_DEFENSE = 0.04;
+
+const ARMOR_DEFS = new Map<ItemId, ArmorDefinition>();
+for (const material of ARMOR_MATERIALS) {
+  ARMOR_PIECES.forEach((piece, slot) => {
+    const id: ArmorItemId = `${material}_${piece}`;
+    ARMOR_DEFS.set(id, { id, piece, material, slot, defense: MATERIAL_DEFENSE[material][slot] });
+  });
+}
+
+export function getArmorDefinition(item: ItemId | null | undefined): ArmorDefinition | null {
+  return item ? ARMOR_DEFS.get(item) ?? null : null;
+}
+
+export function getArmorDefense(armor: (ItemStack | null)[]): number {
+  return armor.reduce((total, stack) => total + (getArmorDefinition(stack?.item)?.defense ?? 0), 0);
+}
+
+// Hits are softened but always hurt at least one point.
+export function reduceByArmor(amount: number, defense: number): number {
+  return Math.max(1, Math.round(amount * (1 - defense * REDUCTION_PER_DEFENSE)));
+}
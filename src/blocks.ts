@@ -1,5 +1,7 @@
 import { BlockDefinition, BlockId, ItemId, PlaceableItemId } from "./types";
 
+const APPLE_DROP = { item: "apple", chance: 0.05 } as const;
+
 export const BLOCK_DEFS: Record<BlockId, BlockDefinition> = {
   [BlockId.Air]: {
     id: BlockId.Air,
@@ -14,7 +16,8 @@ export const BLOCK_DEFS: Record<BlockId, BlockDefinition> = {
     solid: true,
     hardness: 1.2,
     color: 0x4a9a3c,
-    drop: "grass_block"
+    drop: "grass_block",
+    tool: "shovel"
   },
   [BlockId.Dirt]: {
     id: BlockId.Dirt,
@@ -22,7 +25,8 @@ export const BLOCK_DEFS: Record<BlockId, BlockDefinition> = {
     solid: true,
     hardness: 1.0,
     color: 0x8f5f3b,
-    drop: "dirt"
+    drop: "dirt",
+    tool: "shovel"
   },
   [BlockId.Stone]: {
     id: BlockId.Stone,
@@ -30,7 +34,9 @@ export const BLOCK_DEFS: Record<BlockId, BlockDefinition> = {
     solid: true,
     hardness: 2.2,
     color: 0x7f7f88,
-    drop: "stone"
+    drop: "stone",
+    tool: "pickaxe",
+    harvestTier: 1
   },
   [BlockId.Wood]: {
     id: BlockId.Wood,
@@ -38,7 +44,8 @@ export const BLOCK_DEFS: Record<BlockId, BlockDefinition> = {
     solid: true,
     hardness: 1.6,
     color: 0x8f6a2f,
-    drop: "wood"
+    drop: "wood",
+    tool: "axe"
   },
   [BlockId.Leaves]: {
     id: BlockId.Leaves,
@@ -46,7 +53,10 @@ export const BLOCK_DEFS: Record<BlockId, BlockDefinition> = {
     solid: true,
     hardness: 0.4,
     color: 0x2d7b3f,
-    drop: "leaves"
+    drop: "leaves",
+    transparent: true,
+    tool: "sword",
+    bonusDrop: APPLE_DROP
   },
   [BlockId.Sand]: {
     id: BlockId.Sand,
@@ -54,7 +64,8 @@ export const BLOCK_DEFS: Record<BlockId, BlockDefinition> = {
     solid: true,
     hardness: 0.9,
     color: 0xd5c387,
-    drop: "sand"
+    drop: "sand",
+    tool: "shovel"
   },
   [BlockId.Water]: {
     id: BlockId.Water,
@@ -62,6 +73,220 @@ export const BLOCK_DEFS: Record<BlockId, BlockDefinition> = {
     solid: false,
     hardness: 0,
     color: 0x3a72b7
+  },
+  [BlockId.Torch]: {
+    id: BlockId.Torch,
+    name: "Torch",
+    solid: false,
+    hardness: 0.1,
+    color: 0xf2c14e,
+    drop: "torch",
+    lightEmission: 14,
+    shape: "torch"
+  },
+  [BlockId.Glowstone]: {
+    id: BlockId.Glowstone,
+    name: "Glowstone",
+    solid: true,
+    hardness: 0.5,
+    color: 0xf5d27a,
+    drop: "glowstone",
+    lightEmission: 15,
+    tool: "pickaxe"
+  },
+  [BlockId.Snow]: {
+    id: BlockId.Snow,
+    name: "Snow",
+    solid: true,
+    hardness: 0.6,
+    color: 0xf0f4f8,
+    drop: "snow",
+    tool: "shovel"
+  },
+  [BlockId.CoalOre]: {
+    id: BlockId.CoalOre,
+    name: "Coal Ore",
+    solid: true,
+    hardness: 2.6,
+    color: 0x45454c,
+    drop: "coal",
+    tool: "pickaxe",
+    harvestTier: 1
+  },
+  [BlockId.IronOre]: {
+    id: BlockId.IronOre,
+    name: "Iron Ore",
+    solid: true,
+    hardness: 3.0,
+    color: 0xb08d74,
+    drop: "iron_ore",
+    tool: "pickaxe",
+    harvestTier: 2
+  },
+  [BlockId.GoldOre]: {
+    id: BlockId.GoldOre,
+    name: "Gold Ore",
+    solid: true,
+    hardness: 3.0,
+    color: 0xd9bc4c,
+    drop: "gold_ore",
+    tool: "pickaxe",
+    harvestTier: 3
+  },
+  [BlockId.DiamondOre]: {
+    id: BlockId.DiamondOre,
+    name: "Diamond Ore",
+    solid: true,
+    hardness: 3.6,
+    color: 0x62d6cf,
+    drop: "diamond",
+    tool: "pickaxe",
+    harvestTier: 3
+  },
+  [BlockId.BirchWood]: {
+    id: BlockId.BirchWood,
+    name: "Birch Wood",
+    solid: true,
+    hardness: 1.6,
+    color: 0xd9d3c1,
+    drop: "birch_wood",
+    tool: "axe"
+  },
+  [BlockId.BirchLeaves]: {
+    id: BlockId.BirchLeaves,
+    name: "Birch Leaves",
+    solid: true,
+    hardness: 0.4,
+    color: 0x6b9e48,
+    drop: "birch_leaves",
+    transparent: true,
+    tool: "sword",
+    bonusDrop: APPLE_DROP
+  },
+  [BlockId.SpruceWood]: {
+    id: BlockId.SpruceWood,
+    name: "Spruce Wood",
+    solid: true,
+    hardness: 1.6,
+    color: 0x5b3e24,
+    drop: "spruce_wood",
+    tool: "axe"
+  },
+  [BlockId.SpruceLeaves]: {
+    id: BlockId.SpruceLeaves,
+    name: "Spruce Leaves",
+    solid: true,
+    hardness: 0.4,
+    color: 0x2c5b3b,
+    drop: "spruce_leaves",
+    transparent: true,
+    tool: "sword",
+    bonusDrop: APPLE_DROP
+  },
+  [BlockId.JungleWood]: {
+    id: BlockId.JungleWood,
+    name: "Jungle Wood",
+    solid: true,
+    hardness: 1.6,
+    color: 0x7b5b2c,
+    drop: "jungle_wood",
+    tool: "axe"
+  },
+  [BlockId.JungleLeaves]: {
+    id: BlockId.JungleLeaves,
+    name: "Jungle Leaves",
+    solid: true,
+    hardness: 0.4,
+    color: 0x2f8c2b,
+    drop: "jungle_leaves",
+    transparent: true,
+    tool: "sword",
+    bonusDrop: APPLE_DROP
+  },
+  [BlockId.Cactus]: {
+    id: BlockId.Cactus,
+    name: "Cactus",
+    solid: true,
+    hardness: 0.5,
+    color: 0x3f8d3d,
+    drop: "cactus",
+    tool: "sword"
+  },
+  [BlockId.TallGrass]: {
+    id: BlockId.TallGrass,
+    name: "Tall Grass",
+    solid: false,
+    hardness: 0,
+    color: 0x5ea847,
+    drop: "seeds",
+    shape: "cross",
+    tool: "sword"
+  },
+  [BlockId.Poppy]: {
+    id: BlockId.Poppy,
+    name: "Poppy",
+    solid: false,
+    hardness: 0,
+    color: 0xc9322d,
+    drop: "red_dye",
+    shape: "cross",
+    tool: "sword"
+  },
+  [BlockId.Dandelion]: {
+    id: BlockId.Dandelion,
+    name: "Dandelion",
+    solid: false,
+    hardness: 0,
+    color: 0xe6d23b,
+    drop: "yellow_dye",
+    shape: "cross",
+    tool: "sword"
+  },
+  [BlockId.CraftingTable]: {
+    id: BlockId.CraftingTable,
+    name: "Crafting Table",
+    solid: true,
+    hardness: 2.5,
+    color: 0x9c6b3a,
+    drop: "crafting_table",
+    tool: "axe"
+  },
+  [BlockId.Furnace]: {
+    id: BlockId.Furnace,
+    name: "Furnace",
+    solid: true,
+    hardness: 3.5,
+    color: 0x5d5d62,
+    drop: "furnace",
+    tool: "pickaxe",
+    harvestTier: 1
+  },
+  [BlockId.Glass]: {
+    id: BlockId.Glass,
+    name: "Glass",
+    solid: true,
+    hardness: 0.3,
+    color: 0xc9e7ee,
+    drop: "glass",
+    transparent: true
+  },
+  [BlockId.Chest]: {
+    id: BlockId.Chest,
+    name: "Chest",
+    solid: true,
+    hardness: 2.5,
+    color: 0xa8752f,
+    drop: "chest",
+    tool: "axe"
+  },
+  [BlockId.Bed]: {
+    id: BlockId.Bed,
+    name: "Bed",
+    solid: true,
+    hardness: 0.2,
+    color: 0xb02a2a,
+    drop: "bed",
+    tool: "axe"
   }
 };
 
@@ -71,7 +296,24 @@ const ITEM_TO_BLOCK: Record<PlaceableItemId, BlockId> = {
   stone: BlockId.Stone,
   wood: BlockId.Wood,
   leaves: BlockId.Leaves,
-  sand: BlockId.Sand
+  sand: BlockId.Sand,
+  torch: BlockId.Torch,
+  glowstone: BlockId.Glowstone,
+  snow: BlockId.Snow,
+  iron_ore: BlockId.IronOre,
+  gold_ore: BlockId.GoldOre,
+  birch_wood: BlockId.BirchWood,
+  birch_leaves: BlockId.BirchLeaves,
+  spruce_wood: BlockId.SpruceWood,
+  spruce_leaves: BlockId.SpruceLeaves,
+  jungle_wood: BlockId.JungleWood,
+  jungle_leaves: BlockId.JungleLeaves,
+  cactus: BlockId.Cactus,
+  crafting_table: BlockId.CraftingTable,
+  furnace: BlockId.Furnace,
+  glass: BlockId.Glass,
+  chest: BlockId.Chest,
+  bed: BlockId.Bed
 };
 
 export function itemToBlockId(item: ItemId): BlockId | null {
@@ -85,6 +327,34 @@ export function blockIdToDrop(blockId: BlockId): ItemId | null {
   return BLOCK_DEFS[blockId].drop ?? null;
 }
 
+export function rollBonusDrop(blockId: BlockId, random = Math.random): ItemId | null {
+  const bonus = BLOCK_DEFS[blockId].bonusDrop;
+  return bonus && random() < bonus.chance ? bonus.item : null;
+}
+
 export function isSolidBlock(blockId: BlockId): boolean {
   return BLOCK_DEFS[blockId].solid;
 }
+
+export function isLiquidBlock(blockId: BlockId): boolean {
+  return blockId === BlockId.Water;
+}
+
+// Placing a block into empty space, water or a plant such as tall grass simply takes its place.
+export function isReplaceableBlock(blockId: BlockId): boolean {
+  return blockId === BlockId.Air || isLiquidBlock(blockId) || BLOCK_DEFS[blockId].shape === "cross";
+}
+
+export function isOpaqueBlock(blockId: BlockId): boolean {
+  const def = BLOCK_DEFS[blockId];
+  return def.solid && !def.transparent;
+}
+
+// Leaves, glass and other blocks with gaps or a partial shape leave room to breathe.
+export function isSuffocatingBlock(blockId: BlockId): boolean {
+  return isOpaqueBlock(blockId) && !BLOCK_DEFS[blockId].shape;
+}
+
+export function getLightEmission(blockId: BlockId): number {
+  return BLOCK_DEFS[blockId].lightEmission ?? 0;
+}
@@ -5,8 +5,15 @@ export const DB_VERSION = 1;
 export const CHUNK_SIZE = 16;
 export const WORLD_HEIGHT = 96;
 export const VIEW_DISTANCE_CHUNKS = 10;
+export const MAX_CONCURRENT_CHUNK_LOADS = 2;
 export const WORLD_SEA_LEVEL = 28;
 
+export const FLUID_TICK_SECONDS = 0.25;
+export const MAX_FLUID_UPDATES_PER_TICK = 512;
+
+export const DAY_LENGTH_SECONDS = 1200;
+export const START_TIME_OF_DAY = 0.05;
+
 export const GAME_TICK_RATE = 60;
 export const FIXED_DT = 1 / GAME_TICK_RATE;
 export const MAX_FRAME_DT = 0.25;
@@ -20,9 +27,63 @@ export const PLAYER_SPRINT_SPEED = 6.8;
 export const PLAYER_JUMP_SPEED = 8.2;
 export const GRAVITY = 24;
 
+export const PLAYER_MAX_HEALTH = 20;
+export const MAX_HUNGER = 20;
+// Sprinting and jumping build up exhaustion; every EXHAUSTION_PER_HUNGER points cost one hunger point.
+export const EXHAUSTION_PER_HUNGER = 4;
+export const SPRINT_EXHAUSTION_PER_SECOND = 0.6;
+export const JUMP_EXHAUSTION = 0.05;
+export const SPRINT_JUMP_EXHAUSTION = 0.2;
+// At or above this hunger the player heals one point per HUNGER_HEALTH_SECONDS; at zero they starve as fast.
+export const HUNGER_REGEN_THRESHOLD = 16;
+export const HUNGER_HEALTH_SECONDS = 4;
+export const REGEN_EXHAUSTION = 2;
+export const EAT_SECONDS = 1.6;
+
+// Falls longer than this many blocks hurt, one point per extra block.
+export const SAFE_FALL_DISTANCE = 3;
+// Seconds of air while the head is under water; it refills AIR_REFILL_RATE times as fast above water.
+export const PLAYER_MAX_AIR = 10;
+export const AIR_REFILL_RATE = 5;
+export const DROWNING_DAMAGE = 2;
+export const DROWNING_DAMAGE_SECONDS = 1;
+export const SUFFOCATION_DAMAGE = 1;
+export const SUFFOCATION_DAMAGE_SECONDS = 0.5;
+
+export const WATER_GRAVITY = 6;
+export const WATER_DRAG = 2.5;
+export const WATER_SPEED_MULTIPLIER = 0.5;
+export const WATER_SWIM_ACCEL = 18;
+export const WATER_SWIM_SPEED = 3.2;
+export const WATER_MAX_SINK_SPEED = 2.4;
+export const WATER_EXIT_SPEED = 6.5;
+
 export const MOB_HALF_WIDTH = 0.35;
 export const MOB_HEIGHT = 1.8;
 export const MOB_SPEED = 2.5;
+export const MOB_SPAWN_MAX_LIGHT = 7;
+export const MOB_SPAWN_MIN_DISTANCE = 18;
+export const MOB_SPAWN_MAX_DISTANCE = 32;
+export const MOB_SPAWN_VERTICAL_RANGE = 16;
+export const MOB_SUNLIGHT_DAMAGE_PER_SECOND = 2;
+
+export const ITEM_HALF_WIDTH = 0.125;
+export const ITEM_HEIGHT = 0.25;
+export const ITEM_DESPAWN_SECONDS = 300;
+export const ITEM_THROW_PICKUP_DELAY = 1.5;
+export const ITEM_BLOCK_PICKUP_DELAY = 0.25;
+export const ITEM_PICKUP_RADIUS = 1.2;
+export const ITEM_MAGNET_RADIUS = 3;
+export const ITEM_MAGNET_ACCEL = 30;
+export const MAX_ITEM_ENTITIES = 256;
+
+export const FURNACE_SMELT_SECONDS = 10;
+export const CHEST_SLOT_COUNT = 27;
 
 export const MAX_STACK = 64;
 export const HOTBAR_SIZE = 9;
+export const MAIN_INVENTORY_SIZE = 27;
+// How far crafting tables, furnaces and chests stay usable; slightly past the block raycast reach.
+export const BLOCK_USE_REACH = 6.2;
+export const ARMOR_SLOT_COUNT = 4;
+export const OFFHAND_SLOT_COUNT = 1;
@@ -0,0 +1,74 @@
+import * as THREE from "three";
+import { BLOCK_DEFS, itemToBlockId } from "../blocks";
+import { ITEM_DESPAWN_SECONDS, ITEM_HALF_WIDTH, ITEM_HEIGHT } from "../config";
+import { applyItemGravity, applyItemMagnet } from "../shared/itemDrops";
+import { ItemId, ItemStack } from "../types";
+import { CollisionBody, CollisionWorld, FluidWorld, moveWithCollisions, overlapsLiquid } from "./physics";
+
+const ITEM_BODY: CollisionBody = { halfWidth: ITEM_HALF_WIDTH, height: ITEM_HEIGHT };
+// Tools and crafting materials have no block to borrow a color from.
+const LOOSE_ITEM_COLOR = 0xcdb891;
+
+export class DroppedItem {
+  readonly stack: ItemStack;
+  readonly position: THREE.Vector3;
+  readonly velocity: THREE.Vector3;
+  readonly mesh: THREE.Mesh;
+  private readonly pickupDelay: number;
+  private age = 0;
+  private onGround = false;
+
+  constructor(
+    scene: THREE.Scene,
+    stack: ItemStack,
+    position: THREE.Vector3,
+    velocity: THREE.Vector3,
+    pickupDelay: number
+  ) {
+    this.stack = stack;
+    this.position = position.clone();
+    this.velocity = velocity.clone();
+    this.pickupDelay = pickupDelay;
+    this.mesh = createItemMesh(stack.item);
+    this.mesh.position.copy(this.position);
+    scene.add(this.mesh);
+  }
+
+  // `collector` is the player position the item is being pulled toward, if any.
+  update(dt: number, world: CollisionWorld & FluidWorld, collector: THREE.Vector3 | null): void {
+    this.age += dt;
+    applyItemGravity(this.velocity, dt, this.onGround, overlapsLiquid(world, this.position, ITEM_BODY));
+    if (collector) {
+      applyItemMagnet(this.velocity, this.position, collector, dt);
+    }
+    this.onGround = moveWithCollisions(this.position, this.velocity, dt, world, ITEM_BODY).onGround;
+    placeItemMesh(this.mesh, this.position, this.age);
+  }
+
+  canBePickedUp(): boolean {
+    return this.age >= this.pickupDelay;
+  }
+
+  isExpired(): boolean {
+    return this.age >= ITEM_DESPAWN_SECONDS || this.stack.count <= 0;
+  }
+
+  dispose(scene: THREE.Scene): void {
+    scene.remove(this.mesh);
+    this.mesh.geometry.dispose();
+    (this.mesh.material as THREE.Material).dispose();
+  }
+}
+
+export function createItemMesh(item: ItemId): THREE.Mesh {
+  const block = itemToBlockId(item);
+  const color = block === null ? LOOSE_ITEM_COLOR : BLOCK_DEFS[block].color;
+  const size = ITEM_HALF_WIDTH * 2;
+  return new THREE.Mesh(new THREE.BoxGeometry(size, size, size), new THREE.MeshLambertMaterial({ color }));
+}
+
+// Items spin and bob slightly above where they physically rest so they're easy to spot.
+export function placeItemMesh(mesh: THREE.Mesh, position: THREE.Vector3, time: number): void {
+  mesh.position.set(position.x, position.y + ITEM_HEIGHT * 0.5 + 0.08 + Math.sin(time * 2.5) * 0.06, position.z);
+  mesh.rotation.y = time * 1.8;
+}
@@ -1,43 +1,79 @@
 import * as THREE from "three";
 import {
+  BLOCK_USE_REACH,
   FIXED_DT,
+  ITEM_BLOCK_PICKUP_DELAY,
+  ITEM_THROW_PICKUP_DELAY,
+  MAX_CONCURRENT_CHUNK_LOADS,
+  MAX_ITEM_ENTITIES,
   MAX_FRAME_DT,
+  START_TIME_OF_DAY,
   VIEW_DISTANCE_CHUNKS,
   WORLD_HEIGHT,
   WORLD_VERSION
 } from "../config";
-import { blockIdToDrop, BLOCK_DEFS, itemToBlockId } from "../blocks";
+import { getArmorDefense } from "../armor";
+import { blockIdToDrop, BLOCK_DEFS, isReplaceableBlock, itemToBlockId, rollBonusDrop } from "../blocks";
+import { canHarvest, createItemStack, getAttackDamage, getMiningSeconds, upgradeLegacyItemId } from "../tools";
 import { IndexedDbSaveRepository } from "../save/indexeddb";
 import { TerrainRenderer } from "../render/terrainRenderer";
-import { WorldGenerator } from "../world/generator";
+import { Atmosphere } from "../render/atmosphere";
 import { WorldStore } from "../world/world";
-import { BlockId, PlayerSaveState } from "../types";
+import { BiomeMap } from "../world/biomes";
+import { SKY_SHIFT } from "../world/lighting";
+import { ChunkWorkerPool } from "../workers/chunkWorkerPool";
+import { BlockId, ItemStack, PlayerSaveState, SavedDroppedItem, WorldMeta } from "../types";
+import { advanceTimeOfDay, formatTimeOfDay, getDaylight } from "../shared/dayCycle";
+import { findHostileSpawnY, getMobMeatDrop, isBurningInSunlight, pickSpawnColumn } from "../shared/mobRules";
+import { getPopVelocity, getThrowVelocity, isInMagnetRange, isInPickupRange } from "../shared/itemDrops";
+import { INVENTORY_GRID_SIZE, TABLE_GRID_SIZE } from "../shared/craftingGrid";
+import { getBlockEntityContainer, getBlockEntityDrops } from "../shared/blockEntities";
+import { SlotRef } from "../shared/inventorySlots";
+import { createHazardState, tickHazards } from "../shared/damage";
+import { createHungerState, eatFood, tickHunger, updateEating } from "../shared/hunger";
+import { MovementActivity } from "../shared/movement";
+import { BlockEntityState } from "../shared/protocol";
 import { InputController } from "./input";
 import { Inventory } from "./inventory";
-import { craft, RECIPES } from "./crafting";
+import { craftFromGrid } from "./crafting";
 import { PlayerController } from "./player";
 import { aabbIntersectsBlock } from "./physics";
 import { voxelRaycast, VoxelHit } from "./raycast";
 import { Hud } from "../ui/hud";
+import { InventoryScreen } from "../ui/inventoryScreen";
+import { DeathScreen } from "../ui/deathScreen";
 import { HostileMob } from "./mob";
-import { PLAYER_HALF_WIDTH, PLAYER_HEIGHT } from "../config";
+import { DroppedItem } from "./droppedItem";
+import {
+  MOB_HEIGHT,
+  MOB_SUNLIGHT_DAMAGE_PER_SECOND,
+  PLAYER_HALF_WIDTH,
+  PLAYER_HEIGHT,
+  PLAYER_MAX_HEALTH
+} from "../config";
 
 export class Game {
   private readonly root: HTMLElement;
   private readonly renderer: THREE.WebGLRenderer;
   private readonly scene: THREE.Scene;
   private readonly camera: THREE.PerspectiveCamera;
+  private readonly atmosphere: Atmosphere;
   private readonly input: InputController;
   private readonly saveRepo = new IndexedDbSaveRepository();
   private readonly player = new PlayerController();
   private readonly clock = new THREE.Clock();
   private readonly hud: Hud;
+  private readonly inventoryScreen: InventoryScreen;
+  private readonly deathScreen: DeathScreen;
   private readonly blockOutline: THREE.LineSegments;
   private readonly fpsCounter = { frames: 0, elapsed: 0, fps: 0 };
   private readonly rayOrigin = new THREE.Vector3();
   private readonly rayDirection = new THREE.Vector3();
 
+  private worldMeta!: WorldMeta;
+  private chunkWorkers!: ChunkWorkerPool;
   private world!: WorldStore;
+  private biomes!: BiomeMap;
   private terrainRenderer!: TerrainRenderer;
   private inventory = Inventory.createStarterInventory();
   private rafId: number | null = null;
@@ -46,11 +82,18 @@ export class Game {
   private hoveredBlock: VoxelHit | null = null;
   private miningTarget = "";
   private miningProgress = 0;
-  private craftingVisible = false;
+  // Crafting table the open 3x3 grid belongs to.
+  private craftingTable: THREE.Vector3 | null = null;
   private saveTimer = 0;
   private unloadTimer = 0;
   private mobSpawnTimer = 0;
   private mobs: HostileMob[] = [];
+  private droppedItems: DroppedItem[] = [];
+  // Where the player comes back after dying without a bed; only x and z matter, the surface is looked up then.
+  private spawnPoint = new THREE.Vector3(0, 55, 0);
+  // Bed the player last used; they respawn on it for as long as it stands.
+  private spawnBed: THREE.Vector3 | null = null;
+  private respawning = false;
 
   constructor(root: HTMLElement) {
     this.root = root;
@@ -62,18 +105,19 @@ export class Game {
     this.root.appendChild(this.renderer.domElement);
 
     this.scene = new THREE.Scene();
-    this.scene.background = new THREE.Color(0x87b7ff);
-    this.scene.fog = new THREE.Fog(0x87b7ff, 60, 230);
+    this.atmosphere = new Atmosphere(this.scene, 0x87b7ff);
 
     this.camera = new THREE.PerspectiveCamera(75, window.innerWidth / window.innerHeight, 0.1, 400);
     this.input = new InputController(this.renderer.domElement);
     this.hud = new Hud(this.root);
-
-    const ambient = new THREE.AmbientLight(0xffffff, 0.55);
-    this.scene.add(ambient);
-    const sun = new THREE.DirectionalLight(0xffffff, 0.8);
-    sun.position.set(50, 120, 20);
-    this.scene.add(sun);
+    this.inventoryScreen = new InventoryScreen(this.root, {
+      onMove: (from, to, count) => this.moveSlots(from, to, count),
+      onCraft: () => this.craftGrid(),
+      onTransfer: (from) => this.transferSlot(from)
+    });
+    this.deathScreen = new DeathScreen(this.root, () => {
+      void this.respawn();
+    });
 
     const outlineGeometry = new THREE.EdgesGeometry(new THREE.BoxGeometry(1.02, 1.02, 1.02));
     const outlineMaterial = new THREE.LineBasicMaterial({ color: 0xffffff });
@@ -92,18 +136,27 @@ export class Game {
 
     const meta = await this.saveRepo.loadWorldMeta();
     const seed = meta?.seed ?? Math.floor(Math.random() * 2_147_483_647);
+    this.worldMeta = meta ?? { seed, version: WORLD_VERSION, timeOfDay: START_TIME_OF_DAY };
     if (!meta) {
-      await this.saveRepo.saveWorldMeta({ seed, version: WORLD_VERSION });
+      await this.saveRepo.saveWorldMeta(this.worldMeta);
     }
+    this.atmosphere.setTimeOfDay(this.getTimeOfDay());
 
-    const worldGenerator = new WorldGenerator(seed);
-    this.world = new WorldStore(worldGenerator, this.saveRepo, seed);
-    this.terrainRenderer = new TerrainRenderer(this.scene, this.world);
+    this.chunkWorkers = new ChunkWorkerPool(MAX_CONCURRENT_CHUNK_LOADS);
+    this.world = new WorldStore(this.chunkWorkers, this.saveRepo, seed, MAX_CONCURRENT_CHUNK_LOADS);
+    this.biomes = new BiomeMap(seed);
+    this.terrainRenderer = new TerrainRenderer(this.scene, this.world, this.chunkWorkers);
 
     const playerState = await this.saveRepo.loadPlayer();
-    this.restorePlayerState(playerState);
-
-    await this.warmStartChunks();
+    if (this.restorePlayerState(playerState)) {
+      await this.placeAtSpawn();
+    } else {
+      await this.warmStartChunks();
+      this.settleOnSurface(false);
+    }
+    this.restoreDroppedItems(meta?.items ?? []);
+    // The screen starts closed, so anything saved on the crafting grid goes back into storage.
+    this.returnCraftingGrid();
 
     this.initialized = true;
     this.frame();
@@ -119,7 +172,12 @@ export class Game {
       mob.dispose(this.scene);
     }
     this.mobs = [];
+    for (const item of this.droppedItems) {
+      item.dispose(this.scene);
+    }
+    this.droppedItems = [];
     this.terrainRenderer.dispose();
+    this.chunkWorkers.dispose();
     this.renderer.dispose();
   }
 
@@ -128,18 +186,40 @@ export class Game {
     for (let i = 0; i < maxTicks; i += 1) {
       this.world.queueChunksAround(this.player.position.x, this.player.position.z, 3);
       this.world.processLoadQueue();
-      if (this.world.getLoadedChunkCount() >= 25) {
+      if (
+        this.world.getLoadedChunkCount() >= 25 &&
+        this.world.isLoaded(this.player.position.x, this.player.position.z)
+      ) {
         break;
       }
       await new Promise<void>((resolve) => setTimeout(resolve, 8));
     }
+  }
 
+  // A player at the world spawn is put down on the surface; a saved one is only lifted out of the ground.
+  private settleOnSurface(atWorldSpawn: boolean): void {
     const spawnY = this.findSurfaceY(Math.floor(this.player.position.x), Math.floor(this.player.position.z));
-    if (this.player.position.y < spawnY + 2) {
+    if (atWorldSpawn || this.player.position.y < spawnY + 2) {
       this.player.position.y = spawnY + 2;
     }
   }
 
+  // On top of the player's bed if it still stands once its chunk has loaded, otherwise at the world spawn.
+  private async placeAtSpawn(): Promise<void> {
+    const bed = this.spawnBed;
+    if (bed) {
+      this.player.position.set(bed.x + 0.5, bed.y + 1, bed.z + 0.5);
+      await this.warmStartChunks();
+      if (this.world.getBlock(bed.x, bed.y, bed.z) === BlockId.Bed) {
+        return;
+      }
+      this.spawnBed = null;
+    }
+    this.player.position.copy(this.spawnPoint);
+    await this.warmStartChunks();
+    this.settleOnSurface(true);
+  }
+
   private frame = (): void => {
     if (!this.initialized) {
       return;
@@ -162,23 +242,26 @@ export class Game {
     }
 
     this.player.applyToCamera(this.camera);
+    this.updateAtmosphere();
     this.terrainRenderer.update(2);
     this.renderer.render(this.scene, this.camera);
     this.rafId = requestAnimationFrame(this.frame);
   };
 
   private updateFixed(dt: number): void {
-    this.handleInventorySelection();
-    this.handleCraftingInput();
+    // The player is frozen while the death screen is up.
+    const alive = !this.deathScreen.isVisible();
+    if (alive) {
+      this.handleInventorySelection();
+      this.handleInventoryScreenInput();
+    }
 
     this.world.queueChunksAround(this.player.position.x, this.player.position.z, VIEW_DISTANCE_CHUNKS);
     this.world.processLoadQueue();
 
-    this.player.update(dt, this.input, this.world);
-    this.hoveredBlock = this.getTargetBlock();
-    this.updateBlockOutline();
-    this.handleBlockInteraction(dt);
-    this.handleCombat();
+    if (alive) {
+      this.updatePlayer(dt);
+    }
 
     this.unloadTimer += dt;
     if (this.unloadTimer >= 2.5) {
@@ -192,6 +275,11 @@ export class Game {
       this.trySpawnMob();
     }
     this.updateMobs(dt);
+    this.updateDroppedItems(dt);
+    this.world.updateFluids(dt);
+    this.world.updateBlockEntities(dt);
+    this.worldMeta.timeOfDay = advanceTimeOfDay(this.getTimeOfDay(), dt);
+    this.atmosphere.setTimeOfDay(this.worldMeta.timeOfDay);
 
     this.saveTimer += dt;
     if (this.saveTimer >= 3) {
@@ -202,6 +290,96 @@ export class Game {
     this.updateHud();
   }
 
+  private updatePlayer(dt: number): void {
+    this.player.armorDefense = getArmorDefense(this.inventory.armor);
+    const activity = this.player.update(dt, this.input, this.world);
+    this.updateHunger(dt, activity);
+    this.updateHazards(dt);
+    if (this.player.position.y < -20) {
+      this.player.takeDamage(this.player.health, "void");
+    }
+    if (this.player.health <= 0) {
+      this.die();
+      return;
+    }
+
+    this.hoveredBlock = this.getTargetBlock();
+    this.updateBlockOutline();
+    if (!this.inventoryScreen.isVisible()) {
+      this.handleBlockInteraction(dt);
+      this.handleCombat();
+      this.handleDropInput();
+    }
+  }
+
+  // Everything the player carried is dropped where they fell, and the game waits on the death screen.
+  private die(): void {
+    if (this.inventoryScreen.isVisible()) {
+      this.craftingTable = null;
+      this.inventoryScreen.close();
+      this.returnCraftingGrid();
+    }
+    const dropAt = this.player.position.clone().add(new THREE.Vector3(0, 0.5, 0));
+    for (const stack of this.inventory.takeAll()) {
+      this.spawnDroppedItem(stack, dropAt, ITEM_BLOCK_PICKUP_DELAY);
+    }
+    // Save the drops along with the emptied inventory now, so reloading on the death screen can't lose them.
+    void this.persistState();
+    this.player.velocity.set(0, 0, 0);
+    this.player.hunger.eatTime = 0;
+    this.miningTarget = "";
+    this.miningProgress = 0;
+    this.hoveredBlock = null;
+    this.updateBlockOutline();
+    this.deathScreen.show(this.player.lastDamageCause);
+    this.input.releasePointer();
+  }
+
+  private async respawn(): Promise<void> {
+    if (this.player.health > 0 || this.respawning) {
+      return;
+    }
+    this.respawning = true;
+    // The death screen stays up, keeping the player still, until the ground under the spawn point has loaded.
+    // Health comes back only then, so nothing can hurt the player while they wait.
+    await this.placeAtSpawn();
+    this.resetPlayerStats();
+    this.respawning = false;
+    this.deathScreen.hide();
+    this.input.capturePointer();
+  }
+
+  private resetPlayerStats(): void {
+    this.player.velocity.set(0, 0, 0);
+    this.player.health = PLAYER_MAX_HEALTH;
+    this.player.lastDamageCause = null;
+    this.player.hunger = createHungerState();
+    this.player.hazards = createHazardState();
+  }
+
+  private updateHunger(dt: number, activity: MovementActivity): void {
+    const hunger = this.player.hunger;
+    const change = tickHunger(hunger, dt, activity, this.player.health);
+    if (change > 0) {
+      this.player.heal(change);
+    } else if (change < 0) {
+      this.player.takeDamage(-change, "starvation");
+    }
+
+    const food = this.inventory.getSelectedStack()?.item ?? null;
+    const using = this.input.isMouseDown(2) && !this.inventoryScreen.isVisible();
+    if (updateEating(hunger, food, using, dt) && food && this.inventory.consumeSelected(1)) {
+      eatFood(hunger, food);
+    }
+  }
+
+  private updateHazards(dt: number): void {
+    const sample = { position: this.player.position, onGround: this.player.onGround, inLiquid: this.player.inLiquid };
+    for (const event of tickHazards(this.player.hazards, this.world, sample, dt)) {
+      this.player.takeDamage(event.amount, event.cause);
+    }
+  }
+
   private handleInventorySelection(): void {
     const wheel = this.input.consumeWheelSteps();
     if (wheel !== 0) {
@@ -214,18 +392,91 @@ export class Game {
     }
   }
 
-  private handleCraftingInput(): void {
-    if (this.input.wasKeyPressed("KeyC")) {
-      this.craftingVisible = !this.craftingVisible;
-      this.hud.setCraftingVisible(this.craftingVisible);
+  private handleInventoryScreenInput(): void {
+    const open = this.inventoryScreen.isVisible();
+    if (this.input.wasKeyPressed("KeyE") || (open && this.input.wasKeyPressed("Escape"))) {
+      if (open) {
+        this.closeInventoryScreen();
+      } else {
+        this.openInventoryScreen(null);
+      }
+    } else if (open && !this.isOpenBlockInReach()) {
+      this.closeInventoryScreen();
+    }
+  }
+
+  private openInventoryScreen(table: THREE.Vector3 | null): void {
+    const size = table ? TABLE_GRID_SIZE : INVENTORY_GRID_SIZE;
+    this.craftingTable = table;
+    this.returnCraftingGrid(size);
+    this.inventoryScreen.open(size);
+    this.input.releasePointer();
+  }
+
+  private openContainerScreen(entity: BlockEntityState): void {
+    this.craftingTable = null;
+    this.inventoryScreen.openContainer(entity);
+    this.input.releasePointer();
+  }
+
+  private closeInventoryScreen(): void {
+    this.craftingTable = null;
+    this.inventoryScreen.close();
+    this.returnCraftingGrid();
+    this.input.capturePointer();
+  }
+
+  // Swaps in an empty crafting grid of `size` by `size`, or none for 0. Whatever lay on the old grid goes back
+  // into storage, and what doesn't fit drops at the player's feet.
+  private returnCraftingGrid(size = 0): void {
+    for (const stack of this.inventory.resetCraftingGrid(size)) {
+      stack.count = this.inventory.addStack(stack);
+      if (stack.count > 0) {
+        this.spawnDroppedItem(stack, this.player.position, ITEM_THROW_PICKUP_DELAY);
+      }
     }
-    if (!this.craftingVisible) {
+  }
+
+  // The crafting table or container the screen was opened on has to still be there and within reach.
+  private isOpenBlockInReach(): boolean {
+    const container = this.inventoryScreen.getContainer();
+    const block = container ? new THREE.Vector3(container.x, container.y, container.z) : this.craftingTable;
+    if (!block) {
+      return true;
+    }
+    const present = container
+      ? this.world.getBlockEntity(block.x, block.y, block.z) === container
+      : this.world.getBlock(block.x, block.y, block.z) === BlockId.CraftingTable;
+    const eye = this.player.getEyePosition(new THREE.Vector3());
+    return present && eye.distanceTo(block.clone().addScalar(0.5)) <= BLOCK_USE_REACH;
+  }
+
+  private moveSlots(from: SlotRef, to: SlotRef, count: number): void {
+    const entity = this.inventoryScreen.getContainer();
+    if (this.inventory.move(from, to, count, entity ? getBlockEntityContainer(entity) : null) && entity) {
+      this.world.markBlockEntityChanged(entity);
+    }
+  }
+
+  private transferSlot(from: SlotRef): void {
+    const entity = this.inventoryScreen.getContainer();
+    if (entity && this.inventory.transfer(from, getBlockEntityContainer(entity))) {
+      this.world.markBlockEntityChanged(entity);
+    }
+  }
+
+  private craftGrid(): void {
+    if (this.craftingTable && !this.isOpenBlockInReach()) {
       return;
     }
-    for (let i = 0; i < RECIPES.length; i += 1) {
-      if (this.input.wasKeyPressed(`Digit${i + 1}`)) {
-        craft(this.inventory, RECIPES[i]);
-      }
+    const crafted = craftFromGrid(this.inventory);
+    if (!crafted) {
+      return;
+    }
+    // Whatever doesn't fit lands at the player's feet instead of being lost.
+    crafted.count = this.inventory.addStack(crafted);
+    if (crafted.count > 0) {
+      this.spawnDroppedItem(crafted, this.player.position, ITEM_THROW_PICKUP_DELAY);
     }
   }
 
@@ -252,6 +503,19 @@ export class Game {
     const hit = this.hoveredBlock;
 
     if (this.input.wasMousePressed(2) && hit) {
+      if (hit.block === BlockId.CraftingTable) {
+        this.openInventoryScreen(new THREE.Vector3(hit.x, hit.y, hit.z));
+        return;
+      }
+      if (hit.block === BlockId.Bed) {
+        this.spawnBed = new THREE.Vector3(hit.x, hit.y, hit.z);
+        return;
+      }
+      const entity = this.world.getBlockEntity(hit.x, hit.y, hit.z);
+      if (entity) {
+        this.openContainerScreen(entity);
+        return;
+      }
       this.tryPlaceBlock(hit);
     }
 
@@ -267,11 +531,8 @@ export class Game {
       this.miningProgress = 0;
     }
 
-    const hardness = Math.max(0.2, BLOCK_DEFS[hit.block].hardness);
     const selected = this.inventory.getSelectedStack();
-    const toolMultiplier = selected?.item === "pickaxe" ? 1.8 : 1;
-    const miningSpeed = 1.0 * toolMultiplier;
-    this.miningProgress += (miningSpeed / hardness) * dt;
+    this.miningProgress += dt / getMiningSeconds(hit.block, selected?.item);
 
     if (this.miningProgress >= 1) {
       this.breakBlock(hit);
@@ -290,14 +551,15 @@ export class Game {
       return;
     }
 
-    const px = hit.x + hit.normal.x;
-    const py = hit.y + hit.normal.y;
-    const pz = hit.z + hit.normal.z;
+    // Aiming straight at a plant puts the block where the plant stands rather than on top of it.
+    const intoTarget = isReplaceableBlock(this.world.getBlock(hit.x, hit.y, hit.z));
+    const px = intoTarget ? hit.x : hit.x + hit.normal.x;
+    const py = intoTarget ? hit.y : hit.y + hit.normal.y;
+    const pz = intoTarget ? hit.z : hit.z + hit.normal.z;
     if (py < 0 || py >= WORLD_HEIGHT) {
       return;
     }
-    const existing = this.world.getBlock(px, py, pz);
-    if (existing !== BlockId.Air && existing !== BlockId.Water) {
+    if (!isReplaceableBlock(this.world.getBlock(px, py, pz))) {
       return;
     }
 
@@ -323,10 +585,25 @@ export class Game {
     if (block === BlockId.Air || block === BlockId.Water) {
       return;
     }
+    const tool = this.inventory.getSelectedStack()?.item;
+    const entity = this.world.getBlockEntity(hit.x, hit.y, hit.z);
     if (this.world.setBlock(hit.x, hit.y, hit.z, BlockId.Air)) {
-      const drop = blockIdToDrop(block);
+      const center = new THREE.Vector3(hit.x + 0.5, hit.y + 0.25, hit.z + 0.5);
+      const drop = canHarvest(block, tool) ? blockIdToDrop(block) : null;
       if (drop) {
-        this.inventory.add(drop, 1);
+        this.spawnDroppedItem(createItemStack(drop, 1), center, ITEM_BLOCK_PICKUP_DELAY);
+      }
+      const bonus = rollBonusDrop(block);
+      if (bonus) {
+        this.spawnDroppedItem(createItemStack(bonus, 1), center, ITEM_BLOCK_PICKUP_DELAY);
+      }
+      // Whatever the block held spills out even when the block itself drops nothing.
+      for (const stack of entity ? getBlockEntityDrops(entity) : []) {
+        this.spawnDroppedItem({ ...stack }, center, ITEM_BLOCK_PICKUP_DELAY);
+      }
+      // Plants that break instantly don't wear tools down.
+      if (BLOCK_DEFS[block].hardness > 0) {
+        this.inventory.damageSelectedTool(1);
       }
     }
   }
@@ -351,17 +628,75 @@ export class Game {
 
     if (closest) {
       const selected = this.inventory.getSelectedStack();
-      const damage = selected?.item === "pickaxe" ? 4 : 2;
-      closest.takeDamage(damage);
+      closest.takeDamage(getAttackDamage(selected?.item));
+      this.inventory.damageSelectedTool(1);
+    }
+  }
+
+  private handleDropInput(): void {
+    if (!this.input.wasKeyPressed("KeyQ")) {
+      return;
+    }
+    const selected = this.inventory.getSelectedStack();
+    const stack = selected ? this.inventory.takeSelected(selected.count) : null;
+    if (!stack) {
+      return;
+    }
+    const origin = this.player.getEyePosition(new THREE.Vector3()).add(new THREE.Vector3(0, -0.3, 0));
+    this.spawnDroppedItem(stack, origin, ITEM_THROW_PICKUP_DELAY, getThrowVelocity(this.player.yaw, this.player.pitch));
+  }
+
+  private spawnDroppedItem(
+    stack: ItemStack,
+    position: THREE.Vector3,
+    pickupDelay: number,
+    velocity = getPopVelocity()
+  ): void {
+    if (this.droppedItems.length >= MAX_ITEM_ENTITIES) {
+      this.droppedItems.shift()?.dispose(this.scene);
+    }
+    const launch = new THREE.Vector3(velocity.x, velocity.y, velocity.z);
+    this.droppedItems.push(new DroppedItem(this.scene, stack, position, launch, pickupDelay));
+  }
+
+  private updateDroppedItems(dt: number): void {
+    const remaining: DroppedItem[] = [];
+    for (const item of this.droppedItems) {
+      // Items wait in place while their chunk is unloaded instead of falling through it.
+      if (!this.world.isLoaded(item.position.x, item.position.z)) {
+        remaining.push(item);
+        continue;
+      }
+      const collect =
+        this.player.health > 0 &&
+        item.canBePickedUp() &&
+        isInMagnetRange(item.position, this.player.position) &&
+        this.inventory.hasRoomFor(item.stack.item);
+      item.update(dt, this.world, collect ? this.player.position : null);
+      if (collect && isInPickupRange(item.position, this.player.position)) {
+        item.stack.count = this.inventory.addStack(item.stack);
+      }
+      if (item.isExpired()) {
+        item.dispose(this.scene);
+      } else {
+        remaining.push(item);
+      }
     }
+    this.droppedItems = remaining;
   }
 
   private updateMobs(dt: number): void {
     const survivors: HostileMob[] = [];
+    const daylight = getDaylight(this.getTimeOfDay());
     for (const mob of this.mobs) {
       mob.update(dt, this.world, this.player);
+      const burning = isBurningInSunlight(this.world, mob.position, MOB_HEIGHT, daylight);
+      if (burning) {
+        mob.takeDamage(MOB_SUNLIGHT_DAMAGE_PER_SECOND * dt);
+      }
       if (mob.isDead()) {
-        this.inventory.add("dirt", 1);
+        const dropAt = mob.position.clone().add(new THREE.Vector3(0, 0.5, 0));
+        this.spawnDroppedItem(createItemStack(getMobMeatDrop(burning), 1), dropAt, ITEM_BLOCK_PICKUP_DELAY);
         mob.dispose(this.scene);
       } else {
         survivors.push(mob);
@@ -374,16 +709,13 @@ export class Game {
     if (this.mobs.length >= 8) {
       return;
     }
-    const angle = Math.random() * Math.PI * 2;
-    const radius = 10 + Math.random() * 12;
-    const x = Math.floor(this.player.position.x + Math.cos(angle) * radius);
-    const z = Math.floor(this.player.position.z + Math.sin(angle) * radius);
-
-    const y = this.findSurfaceY(x, z) + 1;
-    if (Math.abs(y - this.player.position.y) > 18) {
+    const { x, z } = pickSpawnColumn(this.player.position);
+    if (!this.world.hasChunk(Math.floor(x / 16), Math.floor(z / 16))) {
       return;
     }
-    if (!this.world.hasChunk(Math.floor(x / 16), Math.floor(z / 16))) {
+    const daylight = getDaylight(this.getTimeOfDay());
+    const y = findHostileSpawnY(this.world, x, z, this.player.position.y, daylight);
+    if (y === null) {
       return;
     }
     const mob = new HostileMob(this.scene, x + 0.5, y, z + 0.5);
@@ -400,25 +732,68 @@ export class Game {
     return 20;
   }
 
+  private updateAtmosphere(): void {
+    this.player.getEyePosition(this.rayOrigin);
+    const eyeBlock = this.world.getBlock(this.rayOrigin.x, this.rayOrigin.y, this.rayOrigin.z);
+    const eyeInWater = eyeBlock === BlockId.Water;
+    this.atmosphere.update(eyeInWater, this.rayOrigin);
+    this.terrainRenderer.setDaylight(this.atmosphere.daylight);
+    this.hud.setUnderwater(eyeInWater);
+  }
+
   private updateHud(): void {
     this.hud.updateHealth(this.player.health);
+    this.hud.updateHunger(this.player.hunger);
+    this.hud.updateAir(this.player.hazards.air);
     this.hud.updateHotbar(this.inventory);
-    this.hud.updateCrafting(RECIPES, this.inventory);
+    this.inventoryScreen.update(this.inventory);
     this.hud.updateDebug([
       `FPS: ${this.fpsCounter.fps.toFixed(0)}`,
       `Chunks: ${this.world.getLoadedChunkCount()}`,
       `Chunk Queue: ${this.world.getLoadQueueLength()}`,
+      `Worker Jobs: ${this.chunkWorkers.getQueuedJobCount()}`,
       `Mobs: ${this.mobs.length}`,
+      `Items: ${this.droppedItems.length}`,
+      `Fluid Updates: ${this.world.getPendingFluidUpdates()}`,
       `Mesh Rebuild (ms): ${this.terrainRenderer.lastBuildDurationMs.toFixed(2)}`,
-      `Pos: ${this.player.position.x.toFixed(1)}, ${this.player.position.y.toFixed(1)}, ${this.player.position.z.toFixed(1)}`
+      `Pos: ${this.player.position.x.toFixed(1)}, ${this.player.position.y.toFixed(1)}, ${this.player.position.z.toFixed(1)}`,
+      `Respawn: ${this.spawnBed ? `bed at ${this.spawnBed.x}, ${this.spawnBed.y}, ${this.spawnBed.z}` : "world spawn"}`,
+      `Biome: ${this.biomes.getBiome(Math.floor(this.player.position.x), Math.floor(this.player.position.z)).name}`,
+      `Light: ${this.describeLight()}`,
+      `Time: ${formatTimeOfDay(this.getTimeOfDay())}`
     ]);
   }
 
+  private describeLight(): string {
+    this.player.getEyePosition(this.rayOrigin);
+    const light = this.world.getLight(this.rayOrigin.x, this.rayOrigin.y, this.rayOrigin.z);
+    return `sky ${light >> SKY_SHIFT}, block ${light & 0xf}`;
+  }
+
+  private getTimeOfDay(): number {
+    return this.worldMeta.timeOfDay ?? START_TIME_OF_DAY;
+  }
+
   private async persistState(): Promise<void> {
     await this.world.flushDirtyChunks();
+    // Dropped items go first: if the page closes in between, an item exists twice rather than not at all.
+    await this.saveRepo.saveWorldMeta({ ...this.worldMeta, items: this.serializeDroppedItems() });
     await this.saveRepo.savePlayer(this.serializePlayerState());
   }
 
+  private serializeDroppedItems(): SavedDroppedItem[] {
+    return this.droppedItems
+      .filter((item) => !item.isExpired())
+      .map((item) => ({ stack: { ...item.stack }, x: item.position.x, y: item.position.y, z: item.position.z }));
+  }
+
+  private restoreDroppedItems(saved: SavedDroppedItem[]): void {
+    for (const entry of saved) {
+      const stack = { ...entry.stack, item: upgradeLegacyItemId(entry.stack.item) };
+      this.spawnDroppedItem(stack, new THREE.Vector3(entry.x, entry.y, entry.z), 0, { x: 0, y: 0, z: 0 });
+    }
+  }
+
   private serializePlayerState(): PlayerSaveState {
     return {
       x: this.player.position.x,
@@ -430,29 +805,43 @@ export class Game {
       yaw: this.player.yaw,
       pitch: this.player.pitch,
       health: this.player.health,
+      hunger: this.player.hunger.hunger,
+      spawn: { x: this.spawnPoint.x, y: this.spawnPoint.y, z: this.spawnPoint.z },
+      bed: this.spawnBed ? { x: this.spawnBed.x, y: this.spawnBed.y, z: this.spawnBed.z } : undefined,
       selectedSlot: this.inventory.selectedSlot,
-      hotbar: this.inventory.serialize()
+      ...this.inventory.serialize()
     };
   }
 
-  private restorePlayerState(state: PlayerSaveState | null): void {
+  // Returns true when the player still has to be placed at their spawn point.
+  private restorePlayerState(state: PlayerSaveState | null): boolean {
     if (!state) {
-      this.player.position.set(0, 55, 0);
-      this.player.velocity.set(0, 0, 0);
+      this.resetPlayerStats();
       this.player.yaw = 0;
       this.player.pitch = 0;
-      this.player.health = 20;
       this.inventory = Inventory.createStarterInventory();
-      return;
+      return true;
     }
 
+    if (state.spawn) {
+      this.spawnPoint.set(state.spawn.x, state.spawn.y, state.spawn.z);
+    }
+    this.spawnBed = state.bed ? new THREE.Vector3(state.bed.x, state.bed.y, state.bed.z) : null;
     this.player.position.set(state.x, state.y, state.z);
     this.player.velocity.set(state.vx, state.vy, state.vz);
     this.player.yaw = state.yaw;
     this.player.pitch = state.pitch;
     this.player.health = state.health;
-    this.inventory = new Inventory(state.hotbar);
+    this.player.hunger = createHungerState(state.hunger);
+    this.player.hazards = createHazardState();
+    this.inventory = new Inventory(state);
     this.inventory.setSelected(state.selectedSlot);
+    // Saved on the death screen: the items were already dropped, so the player just comes back.
+    if (state.health <= 0) {
+      this.resetPlayerStats();
+      return true;
+    }
+    return false;
   }
 
   private onResize = (): void => {
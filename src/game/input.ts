@@ -33,6 +33,19 @@ export class InputController {
     return document.pointerLockElement === this.canvas;
   }
 
+  // Frees the cursor for screens like the inventory; capturing again needs a key or click gesture.
+  releasePointer(): void {
+    if (this.isPointerLocked()) {
+      document.exitPointerLock();
+    }
+  }
+
+  capturePointer(): void {
+    if (!this.isPointerLocked()) {
+      void this.canvas.requestPointerLock();
+    }
+  }
+
   consumeLookDelta(): { dx: number; dy: number } {
     const dx = this.lookDeltaX;
     const dy = this.lookDeltaY;
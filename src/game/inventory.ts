@@ -1,32 +1,54 @@
-import { HOTBAR_SIZE, MAX_STACK } from "../config";
+import { HOTBAR_SIZE } from "../config";
 import { ItemId, ItemStack } from "../types";
+import { createItemStack, getMaxStackSize, upgradeLegacyItemId, wearTool } from "../tools";
+import {
+  createEmptySection,
+  INVENTORY_SECTIONS,
+  InventorySlots,
+  isValidSlot,
+  moveStack,
+  resetCraftingGrid,
+  SlotContainer,
+  SlotRef,
+  takeAllStacks,
+  transferStack
+} from "../shared/inventorySlots";
 
-export class Inventory {
-  readonly hotbar: (ItemStack | null)[];
+export class Inventory implements InventorySlots<ItemStack> {
+  readonly hotbar: (ItemStack | null)[] = createEmptySection("hotbar");
+  readonly main: (ItemStack | null)[] = createEmptySection("main");
+  readonly armor: (ItemStack | null)[] = createEmptySection("armor");
+  readonly offhand: (ItemStack | null)[] = createEmptySection("offhand");
+  crafting: (ItemStack | null)[] = [];
   selectedSlot = 0;
 
-  constructor(initial?: (ItemStack | null)[]) {
-    this.hotbar = new Array(HOTBAR_SIZE).fill(null);
-    if (initial) {
-      for (let i = 0; i < Math.min(initial.length, HOTBAR_SIZE); i += 1) {
-        const stack = initial[i];
-        this.hotbar[i] = stack ? { item: stack.item, count: stack.count } : null;
+  constructor(initial?: Partial<InventorySlots<ItemStack>>) {
+    if (!initial) {
+      return;
+    }
+    for (const section of INVENTORY_SECTIONS) {
+      const saved = initial[section] ?? [];
+      const slots = this[section];
+      for (let i = 0; i < Math.min(saved.length, slots.length); i += 1) {
+        const stack = saved[i];
+        slots[i] = stack ? { ...stack, item: upgradeLegacyItemId(stack.item) } : null;
       }
     }
+    this.crafting = (initial.crafting ?? []).map((stack) =>
+      stack ? { ...stack, item: upgradeLegacyItemId(stack.item) } : null
+    );
   }
 
   static createStarterInventory(): Inventory {
-    return new Inventory([
-      { item: "grass_block", count: 32 },
-      { item: "dirt", count: 32 },
-      { item: "stone", count: 32 },
-      { item: "wood", count: 16 },
-      { item: "sand", count: 16 },
-      null,
-      null,
-      null,
-      null
-    ]);
+    return new Inventory({
+      hotbar: [
+        { item: "grass_block", count: 32 },
+        { item: "dirt", count: 32 },
+        { item: "stone", count: 32 },
+        { item: "wood", count: 16 },
+        { item: "sand", count: 16 }
+      ]
+    });
   }
 
   setSelected(index: number): void {
@@ -40,58 +62,75 @@ export class Inventory {
 
   getSelectedStack(): ItemStack | null {
     const stack = this.hotbar[this.selectedSlot];
-    return stack ? { item: stack.item, count: stack.count } : null;
+    return stack ? { ...stack } : null;
   }
 
   add(item: ItemId, count: number): number {
-    let remaining = count;
-    for (let i = 0; i < HOTBAR_SIZE; i += 1) {
-      const slot = this.hotbar[i];
-      if (!slot || slot.item !== item || slot.count >= MAX_STACK) {
-        continue;
-      }
-      const canTake = Math.min(MAX_STACK - slot.count, remaining);
-      slot.count += canTake;
-      remaining -= canTake;
-      if (remaining === 0) {
-        return 0;
+    return this.addStack(createItemStack(item, count));
+  }
+
+  // Tops up matching stacks first, then fills empty slots, hotbar before main storage. Returns what didn't fit.
+  addStack(stack: ItemStack): number {
+    const maxStack = getMaxStackSize(stack.item);
+    let remaining = stack.count;
+    for (const slots of [this.hotbar, this.main]) {
+      for (const slot of slots) {
+        if (!slot || slot.item !== stack.item || slot.count >= maxStack) {
+          continue;
+        }
+        const canTake = Math.min(maxStack - slot.count, remaining);
+        slot.count += canTake;
+        remaining -= canTake;
+        if (remaining === 0) {
+          return 0;
+        }
       }
     }
 
-    for (let i = 0; i < HOTBAR_SIZE; i += 1) {
-      const slot = this.hotbar[i];
-      if (slot) {
-        continue;
-      }
-      const added = Math.min(MAX_STACK, remaining);
-      this.hotbar[i] = { item, count: added };
-      remaining -= added;
-      if (remaining === 0) {
-        return 0;
+    for (const slots of [this.hotbar, this.main]) {
+      for (let i = 0; i < slots.length; i += 1) {
+        if (slots[i]) {
+          continue;
+        }
+        const added = Math.min(maxStack, remaining);
+        slots[i] = { ...stack, count: added };
+        remaining -= added;
+        if (remaining === 0) {
+          return 0;
+        }
       }
     }
 
     return remaining;
   }
 
+  hasRoomFor(item: ItemId): boolean {
+    const maxStack = getMaxStackSize(item);
+    const slots = [...this.hotbar, ...this.main];
+    return slots.some((slot) => !slot || (slot.item === item && slot.count < maxStack));
+  }
+
+  // Takes from main storage before the hotbar so the items at hand last longest.
   remove(item: ItemId, count: number): boolean {
     if (this.count(item) < count) {
       return false;
     }
     let remaining = count;
-    for (let i = 0; i < HOTBAR_SIZE; i += 1) {
-      const slot = this.hotbar[i];
-      if (!slot || slot.item !== item) {
-        continue;
-      }
-      const used = Math.min(slot.count, remaining);
-      slot.count -= used;
-      remaining -= used;
-      if (slot.count === 0) {
-        this.hotbar[i] = null;
-      }
-      if (remaining === 0) {
-        return true;
+    for (const slots of [this.main, this.hotbar]) {
+      for (let i = 0; i < slots.length; i += 1) {
+        const slot = slots[i];
+        if (!slot || slot.item !== item) {
+          continue;
+        }
+        const used = Math.min(slot.count, remaining);
+        slot.count -= used;
+        remaining -= used;
+        if (slot.count === 0) {
+          slots[i] = null;
+        }
+        if (remaining === 0) {
+          return true;
+        }
       }
     }
     return true;
@@ -109,9 +148,57 @@ export class Inventory {
     return true;
   }
 
+  // Removes up to `count` items from the selected slot and returns them as their own stack, e.g. to throw.
+  takeSelected(count: number): ItemStack | null {
+    const slot = this.hotbar[this.selectedSlot];
+    if (!slot || count < 1) {
+      return null;
+    }
+    const taken = Math.min(count, slot.count);
+    slot.count -= taken;
+    if (slot.count === 0) {
+      this.hotbar[this.selectedSlot] = null;
+    }
+    return { ...slot, count: taken };
+  }
+
+  // Wears down the selected tool, removing it when it breaks. Does nothing for other items.
+  damageSelectedTool(amount = 1): void {
+    const slot = this.hotbar[this.selectedSlot];
+    if (slot && !wearTool(slot, amount)) {
+      this.hotbar[this.selectedSlot] = null;
+    }
+  }
+
+  move(from: SlotRef, to: SlotRef, count: number, container: SlotContainer<ItemStack> | null = null): boolean {
+    return moveStack(this, from, to, count, container);
+  }
+
+  transfer(from: SlotRef, container: SlotContainer<ItemStack> | null): boolean {
+    return transferStack(this, from, container);
+  }
+
+  takeAll(): ItemStack[] {
+    return takeAllStacks(this);
+  }
+
+  // Opens a crafting grid of the given size, or closes it with 0, handing back whatever was left on it.
+  resetCraftingGrid(size = 0): ItemStack[] {
+    return resetCraftingGrid(this, size);
+  }
+
+  // Container slots belong to the open block, not the inventory, so they always read as empty here.
+  getSlot(ref: SlotRef): ItemStack | null {
+    if (ref.section === "crafting") {
+      return this.crafting[ref.index] ?? null;
+    }
+    return ref.section !== "container" && isValidSlot(ref) ? this[ref.section][ref.index] : null;
+  }
+
+  // Counts the hotbar and main storage; worn armor and the offhand aren't spent on crafting.
   count(item: ItemId): number {
     let total = 0;
-    for (const slot of this.hotbar) {
+    for (const slot of [...this.hotbar, ...this.main]) {
       if (slot?.item === item) {
         total += slot.count;
       }
@@ -119,7 +206,14 @@ export class Inventory {
     return total;
   }
 
-  serialize(): (ItemStack | null)[] {
-    return this.hotbar.map((slot) => (slot ? { item: slot.item, count: slot.count } : null));
+  serialize(): InventorySlots<ItemStack> {
+    const copy = (slots: (ItemStack | null)[]) => slots.map((slot) => (slot ? { ...slot } : null));
+    return {
+      hotbar: copy(this.hotbar),
+      main: copy(this.main),
+      armor: copy(this.armor),
+      offhand: copy(this.offhand),
+      crafting: copy(this.crafting)
+    };
   }
 }
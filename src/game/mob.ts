@@ -52,7 +52,7 @@ export class HostileMob {
     if (this.attackCooldown > 0) {
       this.attackCooldown -= dt;
     } else if (horizontalDistance < 1.5 && Math.abs(player.position.y - this.position.y) < 1.3) {
-      player.takeDamage(2);
+      player.takeDamage(2, "mob");
       this.attackCooldown = 1.0;
     }
 
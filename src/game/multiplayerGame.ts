@@ -1,24 +1,43 @@
 import * as THREE from "three";
 import {
+  BLOCK_USE_REACH,
   FIXED_DT,
+  MAX_CONCURRENT_CHUNK_LOADS,
+  DAY_LENGTH_SECONDS,
   MAX_FRAME_DT,
   PLAYER_HALF_WIDTH,
-  PLAYER_HEIGHT
+  PLAYER_HEIGHT,
+  START_TIME_OF_DAY
 } from "../config";
-import { BLOCK_DEFS } from "../blocks";
+import { getMiningSeconds } from "../tools";
 import { InputController } from "./input";
 import { Inventory } from "./inventory";
 import { PlayerController } from "./player";
+import { createItemMesh, placeItemMesh } from "./droppedItem";
 import { TerrainRenderer } from "../render/terrainRenderer";
+import { Atmosphere } from "../render/atmosphere";
 import { Hud } from "../ui/hud";
-import { RECIPES } from "./crafting";
+import { InventoryScreen } from "../ui/inventoryScreen";
+import { DeathScreen } from "../ui/deathScreen";
 import { voxelRaycast, VoxelHit } from "./raycast";
 import { aabbIntersectsBlock } from "./physics";
 import { BlockId } from "../types";
 import { NetworkWorldStore } from "../net/networkWorld";
 import { NetworkClient } from "../net/networkClient";
+import { ChunkWorkerPool } from "../workers/chunkWorkerPool";
 import { DEFAULT_ROOM_CODE, MAX_PLAYERS_PER_ROOM, PROTOCOL_VERSION } from "../shared/constants";
-import { NetMobState, NetPlayerState, ServerMessage } from "../shared/protocol";
+import {
+  BlockEntityState,
+  DamageCause,
+  NetItemState,
+  NetMobState,
+  NetPlayerState,
+  ServerMessage
+} from "../shared/protocol";
+import { advanceTimeOfDay, formatTimeOfDay } from "../shared/dayCycle";
+import { INVENTORY_GRID_SIZE, TABLE_GRID_SIZE } from "../shared/craftingGrid";
+import { getBlockEntityType } from "../shared/blockEntities";
+import { updateEating } from "../shared/hunger";
 
 interface MultiplayerOptions {
   serverUrl: string;
@@ -38,6 +57,13 @@ interface RemoteMobVisual {
   health: number;
 }
 
+interface RemoteItemVisual {
+  mesh: THREE.Mesh;
+  // Smoothed toward the latest snapshot position before the bob is added.
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+}
+
 interface PendingInput {
   seq: number;
   dt: number;
@@ -45,6 +71,7 @@ interface PendingInput {
   moveZ: number;
   jump: boolean;
   sprint: boolean;
+  use: boolean;
   yaw: number;
   pitch: number;
 }
@@ -55,11 +82,15 @@ export class MultiplayerGame {
   private readonly renderer: THREE.WebGLRenderer;
   private readonly scene: THREE.Scene;
   private readonly camera: THREE.PerspectiveCamera;
+  private readonly atmosphere: Atmosphere;
   private readonly input: InputController;
   private readonly player = new PlayerController();
   private readonly world = new NetworkWorldStore();
+  private readonly chunkWorkers = new ChunkWorkerPool(MAX_CONCURRENT_CHUNK_LOADS);
   private readonly terrainRenderer: TerrainRenderer;
   private readonly hud: Hud;
+  private readonly inventoryScreen: InventoryScreen;
+  private readonly deathScreen: DeathScreen;
   private readonly network = new NetworkClient();
   private readonly clock = new THREE.Clock();
   private readonly blockOutline: THREE.LineSegments;
@@ -69,6 +100,7 @@ export class MultiplayerGame {
   private readonly pendingInputs: PendingInput[] = [];
   private readonly remotePlayers = new Map<string, RemotePlayerVisual>();
   private readonly remoteMobs = new Map<number, RemoteMobVisual>();
+  private readonly remoteItems = new Map<number, RemoteItemVisual>();
 
   private localPlayerId = "";
   private tick = 0;
@@ -78,7 +110,10 @@ export class MultiplayerGame {
   private hoveredBlock: VoxelHit | null = null;
   private miningTarget = "";
   private miningProgress = 0;
-  private craftingVisible = false;
+  // Crafting table the open 3x3 grid belongs to; the server checks it again when crafting.
+  private craftingTable: THREE.Vector3 | null = null;
+  // A container_open sent to the server that has not been answered yet.
+  private pendingContainer: THREE.Vector3 | null = null;
   private inventory = Inventory.createStarterInventory();
   private inputSeq = 0;
   private netRttMs = 0;
@@ -86,6 +121,9 @@ export class MultiplayerGame {
   private lastServerMessage = "";
   private welcomeResolver: ((message: Extract<ServerMessage, { type: "welcome" }>) => void) | null = null;
   private lastWelcome: Extract<ServerMessage, { type: "welcome" }> | null = null;
+  // Follows the server clock, advanced locally between snapshots so the sky moves smoothly.
+  private timeOfDay = START_TIME_OF_DAY;
+  private dayLengthSeconds = DAY_LENGTH_SECONDS;
 
   constructor(root: HTMLElement, options: MultiplayerOptions) {
     this.root = root;
@@ -102,19 +140,24 @@ export class MultiplayerGame {
     this.root.appendChild(this.renderer.domElement);
 
     this.scene = new THREE.Scene();
-    this.scene.background = new THREE.Color(0x80aff4);
-    this.scene.fog = new THREE.Fog(0x80aff4, 60, 230);
-
-    const ambient = new THREE.AmbientLight(0xffffff, 0.55);
-    this.scene.add(ambient);
-    const sun = new THREE.DirectionalLight(0xffffff, 0.8);
-    sun.position.set(50, 120, 20);
-    this.scene.add(sun);
+    this.atmosphere = new Atmosphere(this.scene, 0x80aff4);
 
     this.camera = new THREE.PerspectiveCamera(75, window.innerWidth / window.innerHeight, 0.1, 400);
     this.input = new InputController(this.renderer.domElement);
-    this.terrainRenderer = new TerrainRenderer(this.scene, this.world);
+    this.terrainRenderer = new TerrainRenderer(this.scene, this.world, this.chunkWorkers);
     this.hud = new Hud(this.root);
+    // The server applies the move and answers with an inventory_update either way.
+    this.inventoryScreen = new InventoryScreen(this.root, {
+      onMove: (from, to, count) => this.network.send({ type: "inventory_move", from, to, count }),
+      onCraft: () => this.craftGrid(),
+      onTransfer: (from) => this.network.send({ type: "container_transfer", from })
+    });
+    // The server keeps the player down until asked, then moves them back to their spawn point.
+    this.deathScreen = new DeathScreen(this.root, () => {
+      this.network.send({ type: "respawn" });
+      this.deathScreen.hide();
+      this.input.capturePointer();
+    });
 
     const outlineGeometry = new THREE.EdgesGeometry(new THREE.BoxGeometry(1.02, 1.02, 1.02));
     const outlineMaterial = new THREE.LineBasicMaterial({ color: 0xffffff });
@@ -162,10 +205,17 @@ export class MultiplayerGame {
       mob.mesh.geometry.dispose();
       (mob.mesh.material as THREE.Material).dispose();
     }
+    for (const item of this.remoteItems.values()) {
+      this.scene.remove(item.mesh);
+      item.mesh.geometry.dispose();
+      (item.mesh.material as THREE.Material).dispose();
+    }
     this.remotePlayers.clear();
     this.remoteMobs.clear();
+    this.remoteItems.clear();
     this.network.close();
     this.terrainRenderer.dispose();
+    this.chunkWorkers.dispose();
     this.renderer.dispose();
   }
 
@@ -208,6 +258,7 @@ export class MultiplayerGame {
     }
 
     this.player.applyToCamera(this.camera);
+    this.updateAtmosphere();
     this.updateRemoteVisuals();
     this.terrainRenderer.update(3);
     this.renderer.render(this.scene, this.camera);
@@ -215,14 +266,36 @@ export class MultiplayerGame {
   };
 
   private updateFixed(dt: number): void {
+    if (!this.deathScreen.isVisible()) {
+      this.updateLocalPlayer(dt);
+    }
+
+    this.timeOfDay = advanceTimeOfDay(this.timeOfDay, dt, this.dayLengthSeconds);
+
+    this.atmosphere.setTimeOfDay(this.timeOfDay);
+
+    this.pingTimer += dt;
+    if (this.pingTimer >= 1.0) {
+      this.pingTimer = 0;
+      this.network.send({ type: "ping", clientTime: performance.now() });
+    }
+
+    this.updateHud();
+  }
+
+  private updateLocalPlayer(dt: number): void {
     this.handleInventorySelection();
-    this.handleCraftingInput();
+    this.handleInventoryScreenInput();
 
     this.player.update(dt, this.input, this.world);
+    this.updateEatingProgress(dt);
     this.hoveredBlock = this.getTargetBlock();
     this.updateBlockOutline();
-    this.handleBlockInteraction(dt);
-    this.handleCombat();
+    if (!this.inventoryScreen.isVisible()) {
+      this.handleBlockInteraction(dt);
+      this.handleCombat();
+      this.handleDropInput();
+    }
 
     const pending = this.captureMovementInput(dt);
     this.pendingInputs.push(pending);
@@ -233,14 +306,21 @@ export class MultiplayerGame {
     if (this.pendingInputs.length > 120) {
       this.pendingInputs.shift();
     }
+  }
 
-    this.pingTimer += dt;
-    if (this.pingTimer >= 1.0) {
-      this.pingTimer = 0;
-      this.network.send({ type: "ping", clientTime: performance.now() });
+  // The server has already dropped the inventory, crafting grid included, and closed any container.
+  private showDeathScreen(cause: DamageCause): void {
+    if (this.inventoryScreen.isVisible()) {
+      this.craftingTable = null;
+      this.inventoryScreen.close();
     }
-
-    this.updateHud();
+    this.pendingContainer = null;
+    this.miningTarget = "";
+    this.miningProgress = 0;
+    this.hoveredBlock = null;
+    this.updateBlockOutline();
+    this.deathScreen.show(cause);
+    this.input.releasePointer();
   }
 
   private captureMovementInput(dt: number): PendingInput {
@@ -257,11 +337,22 @@ export class MultiplayerGame {
       moveZ: normalizedZ,
       jump: this.input.isKeyDown("Space"),
       sprint: this.input.isKeyDown("ShiftLeft"),
+      use: this.isUsingItem(),
       yaw: this.player.yaw,
       pitch: this.player.pitch
     };
   }
 
+  private isUsingItem(): boolean {
+    return this.input.isMouseDown(2) && !this.inventoryScreen.isVisible();
+  }
+
+  // The server does the eating; this only tracks the hold locally so the HUD can show progress.
+  private updateEatingProgress(dt: number): void {
+    const food = this.inventory.getSelectedStack()?.item ?? null;
+    updateEating(this.player.hunger, food, this.isUsingItem(), dt);
+  }
+
   private handleInventorySelection(): void {
     const wheel = this.input.consumeWheelSteps();
     if (wheel !== 0) {
@@ -276,19 +367,66 @@ export class MultiplayerGame {
     }
   }
 
-  private handleCraftingInput(): void {
-    if (this.input.wasKeyPressed("KeyC")) {
-      this.craftingVisible = !this.craftingVisible;
-      this.hud.setCraftingVisible(this.craftingVisible);
+  private handleInventoryScreenInput(): void {
+    const open = this.inventoryScreen.isVisible();
+    if (this.input.wasKeyPressed("KeyE") || (open && this.input.wasKeyPressed("Escape"))) {
+      if (open) {
+        this.closeInventoryScreen();
+      } else {
+        this.openInventoryScreen(null);
+      }
+    } else if (open && !this.isCraftingTableInReach()) {
+      this.closeInventoryScreen();
+    }
+  }
+
+  // The server keeps the grid's stacks, so it is told about the grid before anything can be moved onto it.
+  private openInventoryScreen(table: THREE.Vector3 | null): void {
+    this.network.send({ type: "crafting_open", table: table ? { x: table.x, y: table.y, z: table.z } : undefined });
+    this.craftingTable = table;
+    this.inventoryScreen.open(table ? TABLE_GRID_SIZE : INVENTORY_GRID_SIZE);
+    this.input.releasePointer();
+  }
+
+  private closeInventoryScreen(): void {
+    this.network.send({ type: "container_close" });
+    this.craftingTable = null;
+    this.inventoryScreen.close();
+    this.input.capturePointer();
+  }
+
+  private isCraftingTableInReach(): boolean {
+    const table = this.craftingTable;
+    if (!table) {
+      return true;
     }
-    if (!this.craftingVisible) {
+    const eye = this.player.getEyePosition(new THREE.Vector3());
+    return (
+      this.world.getBlock(table.x, table.y, table.z) === BlockId.CraftingTable &&
+      eye.distanceTo(table.clone().addScalar(0.5)) <= BLOCK_USE_REACH
+    );
+  }
+
+  // Updates the open container in place, or opens the screen once the server answers a container_open.
+  private applyContainerUpdate(entity: BlockEntityState): void {
+    const shown = this.inventoryScreen.getContainer();
+    if (shown && shown.x === entity.x && shown.y === entity.y && shown.z === entity.z) {
+      this.inventoryScreen.setContainer(entity);
       return;
     }
-    for (let i = 0; i < RECIPES.length; i += 1) {
-      if (this.input.wasKeyPressed(`Digit${i + 1}`)) {
-        this.network.send({ type: "action_craft", recipeId: RECIPES[i].id });
-      }
+    const pending = this.pendingContainer;
+    if (!pending || !pending.equals(new THREE.Vector3(entity.x, entity.y, entity.z))) {
+      return;
     }
+    this.pendingContainer = null;
+    this.craftingTable = null;
+    this.inventoryScreen.openContainer(entity);
+    this.input.releasePointer();
+  }
+
+  // The server crafts from its own copy of the grid and answers with an inventory_update.
+  private craftGrid(): void {
+    this.network.send({ type: "action_craft" });
   }
 
   private getTargetBlock(): VoxelHit | null {
@@ -313,6 +451,19 @@ export class MultiplayerGame {
   private handleBlockInteraction(dt: number): void {
     const hit = this.hoveredBlock;
     if (this.input.wasMousePressed(2) && hit) {
+      if (hit.block === BlockId.CraftingTable) {
+        this.openInventoryScreen(new THREE.Vector3(hit.x, hit.y, hit.z));
+        return;
+      }
+      if (hit.block === BlockId.Bed) {
+        this.network.send({ type: "set_spawn", target: { x: hit.x, y: hit.y, z: hit.z } });
+        return;
+      }
+      if (getBlockEntityType(hit.block)) {
+        this.pendingContainer = new THREE.Vector3(hit.x, hit.y, hit.z);
+        this.network.send({ type: "container_open", target: { x: hit.x, y: hit.y, z: hit.z } });
+        return;
+      }
       const selected = this.inventory.getSelectedStack();
       if (!selected) {
         return;
@@ -350,10 +501,8 @@ export class MultiplayerGame {
       this.miningTarget = key;
       this.miningProgress = 0;
     }
-    const hardness = Math.max(0.2, BLOCK_DEFS[hit.block].hardness);
     const selected = this.inventory.getSelectedStack();
-    const toolMultiplier = selected?.item === "pickaxe" ? 1.8 : 1;
-    this.miningProgress += (1.0 * toolMultiplier * dt) / hardness;
+    this.miningProgress += dt / getMiningSeconds(hit.block, selected?.item);
     if (this.miningProgress >= 1) {
       this.network.send({
         type: "action_mine",
@@ -391,6 +540,14 @@ export class MultiplayerGame {
     }
   }
 
+  private handleDropInput(): void {
+    const selected = this.inventory.getSelectedStack();
+    if (!selected || !this.input.wasKeyPressed("KeyQ")) {
+      return;
+    }
+    this.network.send({ type: "action_drop", selectedSlot: this.inventory.selectedSlot, count: selected.count });
+  }
+
   private onServerMessage(message: ServerMessage): void {
     switch (message.type) {
       case "welcome":
@@ -398,31 +555,50 @@ export class MultiplayerGame {
         this.tick = message.serverTick;
         this.lastServerMessage = `Welcome ${this.options.nickname}`;
         this.lastWelcome = message;
+        this.timeOfDay = message.timeOfDay;
+        this.dayLengthSeconds = message.dayLengthSeconds;
         this.welcomeResolver?.(message);
         this.welcomeResolver = null;
         break;
       case "chunk_data": {
         const blocks = this.world.decodeChunkBase64(message.blocksBase64);
-        this.world.setChunk(message.cx, message.cz, blocks);
+        const meta = this.world.decodeMetaBase64(message.metaBase64);
+        this.world.setChunk(message.cx, message.cz, blocks, meta);
         break;
       }
       case "snapshot":
         this.tick = message.tick;
+        this.timeOfDay = message.timeOfDay;
         for (const delta of message.changedBlocks) {
-          this.world.applyBlockDelta(delta.x, delta.y, delta.z, delta.block as BlockId);
+          this.world.applyBlockDelta(delta.x, delta.y, delta.z, delta.block as BlockId, delta.meta);
         }
         this.applySnapshotPlayers(message.players);
         this.applySnapshotMobs(message.mobs);
+        this.applySnapshotItems(message.items);
         break;
       case "inventory_update":
-        this.inventory = new Inventory(message.hotbar as never);
+        this.inventory = new Inventory(message);
         this.inventory.setSelected(message.selectedSlot);
         break;
+      case "container_update":
+        this.applyContainerUpdate(message.entity);
+        break;
+      case "container_closed":
+        this.pendingContainer = null;
+        if (this.inventoryScreen.getContainer() || this.craftingTable) {
+          this.craftingTable = null;
+          this.inventoryScreen.close();
+          this.input.capturePointer();
+        }
+        break;
       case "event":
-        if (message.kind === "damage") {
-          this.lastServerMessage = "You took damage";
-        } else if (message.kind === "death") {
-          this.lastServerMessage = "You died";
+        if (message.event.kind === "damage") {
+          this.lastServerMessage = `You took ${message.event.amount} ${message.event.cause} damage`;
+        } else if (message.event.kind === "death") {
+          this.lastServerMessage = `You died (${message.event.cause})`;
+          this.showDeathScreen(message.event.cause);
+        } else if (message.event.kind === "spawn_set") {
+          this.lastServerMessage = "Respawn point set";
         }
         break;
       case "pong":
@@ -478,12 +654,11 @@ export class MultiplayerGame {
     }
     this.player.velocity.set(state.vx, state.vy, state.vz);
     this.player.health = state.health;
+    this.player.hunger.hunger = state.hunger;
+    this.player.hazards.air = state.air;
     this.player.yaw = state.yaw;
     this.player.pitch = state.pitch;
 
-    this.inventory = new Inventory(state.hotbar as never);
-    this.inventory.setSelected(state.selectedSlot);
-
     if (typeof state.lastProcessedSeq === "number") {
       while (this.pendingInputs.length > 0 && this.pendingInputs[0].seq <= state.lastProcessedSeq) {
         this.pendingInputs.shift();
@@ -525,6 +700,32 @@ export class MultiplayerGame {
     }
   }
 
+  private applySnapshotItems(items: NetItemState[]): void {
+    const seen = new Set<number>();
+    for (const state of items) {
+      seen.add(state.id);
+      let visual = this.remoteItems.get(state.id);
+      if (!visual) {
+        const mesh = createItemMesh(state.stack.item);
+        this.scene.add(mesh);
+        const position = new THREE.Vector3(state.x, state.y, state.z);
+        visual = { mesh, position, target: position.clone() };
+        this.remoteItems.set(state.id, visual);
+      }
+      visual.target.set(state.x, state.y, state.z);
+    }
+
+    for (const [id, item] of this.remoteItems.entries()) {
+      if (seen.has(id)) {
+        continue;
+      }
+      this.scene.remove(item.mesh);
+      item.mesh.geometry.dispose();
+      (item.mesh.material as THREE.Material).dispose();
+      this.remoteItems.delete(id);
+    }
+  }
+
   private updateRemoteVisuals(): void {
     for (const remote of this.remotePlayers.values()) {
       remote.mesh.position.lerp(remote.target, 0.25);
@@ -532,22 +733,40 @@ export class MultiplayerGame {
     for (const mob of this.remoteMobs.values()) {
       mob.mesh.position.lerp(mob.target, 0.25);
     }
+    const time = performance.now() / 1000;
+    for (const item of this.remoteItems.values()) {
+      item.position.lerp(item.target, 0.25);
+      placeItemMesh(item.mesh, item.position, time);
+    }
+  }
+
+  private updateAtmosphere(): void {
+    this.player.getEyePosition(this.rayOrigin);
+    const eyeBlock = this.world.getBlock(this.rayOrigin.x, this.rayOrigin.y, this.rayOrigin.z);
+    const eyeInWater = eyeBlock === BlockId.Water;
+    this.atmosphere.update(eyeInWater, this.rayOrigin);
+    this.terrainRenderer.setDaylight(this.atmosphere.daylight);
+    this.hud.setUnderwater(eyeInWater);
   }
 
   private updateHud(): void {
     this.hud.updateHealth(this.player.health);
+    this.hud.updateHunger(this.player.hunger);
+    this.hud.updateAir(this.player.hazards.air);
     this.hud.updateHotbar(this.inventory);
-    this.hud.updateCrafting(RECIPES, this.inventory);
+    this.inventoryScreen.update(this.inventory);
     this.hud.updateDebug([
       `Mode: Multiplayer`,
       `FPS: ${this.fpsCounter.fps.toFixed(0)}`,
       `Chunks: ${this.world.getLoadedChunkCount()}`,
       `Remote Players: ${this.remotePlayers.size}`,
       `Remote Mobs: ${this.remoteMobs.size}`,
+      `Items: ${this.remoteItems.size}`,
       `Tick: ${this.tick}`,
       `Ping: ${this.netRttMs.toFixed(0)}ms`,
       `Server: ${this.lastServerMessage}`,
-      `Pos: ${this.player.position.x.toFixed(1)}, ${this.player.position.y.toFixed(1)}, ${this.player.position.z.toFixed(1)}`
+      `Pos: ${this.player.position.x.toFixed(1)}, ${this.player.position.y.toFixed(1)}, ${this.player.position.z.toFixed(1)}`,
+      `Time: ${formatTimeOfDay(this.timeOfDay)}`
     ]);
   }
 
@@ -1,25 +1,30 @@
 import * as THREE from "three";
-import {
-  GRAVITY,
-  PLAYER_EYE_HEIGHT,
-  PLAYER_HALF_WIDTH,
-  PLAYER_HEIGHT,
-  PLAYER_JUMP_SPEED,
-  PLAYER_SPRINT_SPEED,
-  PLAYER_WALK_SPEED
-} from "../config";
+import { PLAYER_EYE_HEIGHT, PLAYER_HALF_WIDTH, PLAYER_HEIGHT, PLAYER_MAX_HEALTH } from "../config";
+import { createHazardState, getDamageTaken, HazardState } from "../shared/damage";
+import { createHungerState, HungerState } from "../shared/hunger";
+import { applyVerticalMovement, getMovementActivity, getMoveSpeed, MovementActivity } from "../shared/movement";
+import { DamageCause } from "../shared/protocol";
 import { InputController } from "./input";
-import { CollisionWorld, moveWithCollisions } from "./physics";
+import { CollisionBody, CollisionWorld, FluidWorld, moveWithCollisions, overlapsLiquid } from "./physics";
+
+const PLAYER_BODY: CollisionBody = { halfWidth: PLAYER_HALF_WIDTH, height: PLAYER_HEIGHT };
 
 export class PlayerController {
   readonly position = new THREE.Vector3(0, 50, 0);
   readonly velocity = new THREE.Vector3();
   yaw = 0;
   pitch = 0;
-  health = 20;
+  health = PLAYER_MAX_HEALTH;
+  hunger: HungerState = createHungerState();
+  hazards: HazardState = createHazardState();
+  lastDamageCause: DamageCause | null = null;
+  // Defense of the armor being worn, kept in step with the inventory by the game.
+  armorDefense = 0;
   onGround = false;
+  inLiquid = false;
+  againstWall = false;
 
-  update(dt: number, input: InputController, world: CollisionWorld): void {
+  update(dt: number, input: InputController, world: CollisionWorld & FluidWorld): MovementActivity {
     const look = input.consumeLookDelta();
     this.yaw -= look.dx * 0.0022;
     this.pitch -= look.dy * 0.0022;
@@ -34,7 +39,8 @@ export class PlayerController {
       moveInput.normalize();
     }
 
-    const speed = input.isKeyDown("ShiftLeft") ? PLAYER_SPRINT_SPEED : PLAYER_WALK_SPEED;
+    this.inLiquid = overlapsLiquid(world, this.position, PLAYER_BODY);
+    const speed = getMoveSpeed(input.isKeyDown("ShiftLeft"), this.inLiquid);
     const forward = new THREE.Vector3(Math.sin(this.yaw), 0, Math.cos(this.yaw));
     const right = new THREE.Vector3(forward.z, 0, -forward.x);
     const desiredX = right.x * moveInput.x + forward.x * moveInput.z;
@@ -45,17 +51,21 @@ export class PlayerController {
     this.velocity.x += (desiredX * speed - this.velocity.x) * Math.min(1, accel * dt);
     this.velocity.z += (desiredZ * speed - this.velocity.z) * Math.min(1, accel * dt);
 
-    this.velocity.y -= GRAVITY * dt;
-    if (input.isKeyDown("Space") && this.onGround) {
-      this.velocity.y = PLAYER_JUMP_SPEED;
-      this.onGround = false;
-    }
+    const vertical = {
+      jump: input.isKeyDown("Space"),
+      onGround: this.onGround,
+      inLiquid: this.inLiquid,
+      againstWall: this.againstWall
+    };
+    const activity = getMovementActivity(input.isKeyDown("ShiftLeft"), moveInput.lengthSq() > 0, vertical);
+    applyVerticalMovement(this.velocity, dt, vertical);
 
-    const collision = moveWithCollisions(this.position, this.velocity, dt, world, {
-      halfWidth: PLAYER_HALF_WIDTH,
-      height: PLAYER_HEIGHT
-    });
+    const collision = moveWithCollisions(this.position, this.velocity, dt, world, PLAYER_BODY);
     this.onGround = collision.onGround;
+    this.againstWall = collision.hitX || collision.hitZ;
+    // Hazards read this after the move, so landing in water this step already counts as being in it.
+    this.inLiquid = overlapsLiquid(world, this.position, PLAYER_BODY);
+    return activity;
   }
 
   applyToCamera(camera: THREE.PerspectiveCamera): void {
@@ -75,7 +85,12 @@ export class PlayerController {
     return target.normalize();
   }
 
-  takeDamage(amount: number): void {
-    this.health = Math.max(0, this.health - amount);
+  takeDamage(amount: number, cause: DamageCause): void {
+    this.health = Math.max(0, this.health - getDamageTaken(amount, cause, this.armorDefense));
+    this.lastDamageCause = cause;
+  }
+
+  heal(amount: number): void {
+    this.health = Math.min(PLAYER_MAX_HEALTH, this.health + amount);
   }
 }
@@ -1,15 +1,21 @@
 import { CHUNK_SIZE, WORLD_HEIGHT } from "../config";
 import { BlockId } from "../types";
-import { chunkKey } from "../world/chunk";
-import { isSolidBlock } from "../blocks";
+import { ChunkData, chunkKey } from "../world/chunk";
+import { LightEngine } from "../world/lighting";
+import { isLiquidBlock, isSolidBlock } from "../blocks";
 
 interface ChunkState {
-  blocks: Uint16Array;
+  chunk: ChunkData;
   meshDirty: boolean;
 }
 
 export class NetworkWorldStore {
   private readonly chunks = new Map<string, ChunkState>();
+  // The server streams block ids and metadata only, so light is derived locally the same way single player does it.
+  private readonly light = new LightEngine({
+    getLoadedChunk: (cx, cz) => this.getLoadedChunk(cx, cz),
+    onChunkLightChanged: (cx, cz) => this.markChunkDirty(cx, cz)
+  });
 
   forEachChunk(callback: (key: string, state: ChunkState) => void): void {
     for (const [key, state] of this.chunks.entries()) {
@@ -21,6 +27,10 @@ export class NetworkWorldStore {
     return this.chunks.has(chunkKey(cx, cz));
   }
 
+  getLoadedChunk(cx: number, cz: number): ChunkData | null {
+    return this.chunks.get(chunkKey(cx, cz))?.chunk ?? null;
+  }
+
   getLoadedChunkCount(): number {
     return this.chunks.size;
   }
@@ -39,16 +49,19 @@ export class NetworkWorldStore {
     if (!state) {
       return BlockId.Air;
     }
-    return state.blocks[index(lx, y, lz)] as BlockId;
+    return state.chunk.get(lx, y, lz);
   }
 
-  setChunk(cx: number, cz: number, blocks: Uint16Array): void {
+  setChunk(cx: number, cz: number, blocks: Uint16Array, meta: Uint8Array): void {
     const key = chunkKey(cx, cz);
-    this.chunks.set(key, { blocks, meshDirty: true });
+    const chunk = new ChunkData(cx, cz, blocks, meta);
+    this.chunks.set(key, { chunk, meshDirty: true });
     this.markNeighborChunksDirty(cx, cz);
+    this.light.lightChunk(chunk);
+    this.light.stitchChunk(cx, cz);
   }
 
-  applyBlockDelta(x: number, y: number, z: number, block: BlockId): void {
+  applyBlockDelta(x: number, y: number, z: number, block: BlockId, meta: number): void {
     if (y < 0 || y >= WORLD_HEIGHT) {
       return;
     }
@@ -63,22 +76,31 @@ export class NetworkWorldStore {
     if (!state) {
       return;
     }
-    state.blocks[index(lx, y, lz)] = block;
+    state.chunk.set(lx, y, lz, block);
+    state.chunk.setMeta(lx, y, lz, meta);
     state.meshDirty = true;
     this.markNeighborChunksDirty(cx, cz, lx, lz);
+    this.light.updateBlock(fx, y, fz);
+  }
+
+  getLight(x: number, y: number, z: number): number {
+    return this.light.getLight(Math.floor(x), Math.floor(y), Math.floor(z));
   }
 
   isSolid(x: number, y: number, z: number): boolean {
     return isSolidBlock(this.getBlock(x, y, z));
   }
 
+  isLiquid(x: number, y: number, z: number): boolean {
+    return isLiquidBlock(this.getBlock(x, y, z));
+  }
+
   decodeChunkBase64(base64: string): Uint16Array {
-    const raw = atob(base64);
-    const bytes = new Uint8Array(raw.length);
-    for (let i = 0; i < raw.length; i += 1) {
-      bytes[i] = raw.charCodeAt(i);
-    }
-    return new Uint16Array(bytes.buffer);
+    return new Uint16Array(decodeBase64(base64).buffer);
+  }
+
+  decodeMetaBase64(base64: string): Uint8Array {
+    return decodeBase64(base64);
   }
 
   private markNeighborChunksDirty(cx: number, cz: number, lx?: number, lz?: number): void {
@@ -109,6 +131,11 @@ export class NetworkWorldStore {
   }
 }
 
-function index(lx: number, y: number, lz: number): number {
-  return lx + lz * CHUNK_SIZE + y * CHUNK_SIZE * CHUNK_SIZE;
+function decodeBase64(base64: string): Uint8Array {
+  const raw = atob(base64);
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i += 1) {
+    bytes[i] = raw.charCodeAt(i);
+  }
+  return bytes;
 }
@@ -10,6 +10,11 @@ function hash2(seed: number, x: number, z: number): number {
   return n / 0xffffffff;
 }
 
+function hash3(seed: number, x: number, y: number, z: number): number {
+  const n = hashInt(seed ^ Math.imul(x, 0x1f123bb5) ^ Math.imul(y, 0x2c1b3c6d) ^ Math.imul(z, 0x5f356495));
+  return n / 0xffffffff;
+}
+
 function lerp(a: number, b: number, t: number): number {
   return a + (b - a) * t;
 }
@@ -59,6 +64,62 @@ export class ValueNoise2D {
   }
 }
 
+export class ValueNoise3D {
+  private readonly seed: number;
+
+  constructor(seed: number) {
+    this.seed = seed | 0;
+  }
+
+  sample(x: number, y: number, z: number): number {
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const z0 = Math.floor(z);
+
+    const tx = smoothstep(x - x0);
+    const ty = smoothstep(y - y0);
+    const tz = smoothstep(z - z0);
+
+    const v000 = hash3(this.seed, x0, y0, z0);
+    const v100 = hash3(this.seed, x0 + 1, y0, z0);
+    const v010 = hash3(this.seed, x0, y0 + 1, z0);
+    const v110 = hash3(this.seed, x0 + 1, y0 + 1, z0);
+    const v001 = hash3(this.seed, x0, y0, z0 + 1);
+    const v101 = hash3(this.seed, x0 + 1, y0, z0 + 1);
+    const v011 = hash3(this.seed, x0, y0 + 1, z0 + 1);
+    const v111 = hash3(this.seed, x0 + 1, y0 + 1, z0 + 1);
+
+    const a = lerp(lerp(v000, v100, tx), lerp(v010, v110, tx), ty);
+    const b = lerp(lerp(v001, v101, tx), lerp(v011, v111, tx), ty);
+    return lerp(a, b, tz);
+  }
+
+  fbm(x: number, y: number, z: number, octaves = 3): number {
+    let frequency = 1;
+    let amplitude = 1;
+    let sum = 0;
+    let norm = 0;
+    for (let i = 0; i < octaves; i += 1) {
+      sum += this.sample(x * frequency, y * frequency, z * frequency) * amplitude;
+      norm += amplitude;
+      amplitude *= 0.5;
+      frequency *= 2;
+    }
+    return sum / norm;
+  }
+}
+
 export function hashRange(seed: number, x: number, z: number): number {
   return hash2(seed, x, z);
 }
+
+// Small seeded generator (mulberry32) for placement that needs a sequence of rolls rather than one per column.
+export function createRandom(seed: number): () => number {
+  let state = seed | 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
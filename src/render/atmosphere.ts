@@ -0,0 +1,95 @@
+import * as THREE from "three";
+import { START_TIME_OF_DAY } from "../config";
+import { getDaylight, getSunDirection, NIGHT_DAYLIGHT } from "../shared/dayCycle";
+
+const FOG_NEAR = 60;
+const FOG_FAR = 230;
+const UNDERWATER_COLOR = 0x1d4f86;
+const UNDERWATER_FOG_NEAR = 0.5;
+const UNDERWATER_FOG_FAR = 22;
+const NIGHT_SKY_COLOR = 0x0b1330;
+const DUSK_COLOR = 0xf0905a;
+const SUN_COLOR = 0xfff1b8;
+const MOON_COLOR = 0xdde4f4;
+// Far enough to sit behind the terrain, inside the camera's far plane.
+const SKY_BODY_DISTANCE = 320;
+
+export class Atmosphere {
+  private readonly scene: THREE.Scene;
+  private readonly skyColor: THREE.Color;
+  private readonly nightSkyColor = new THREE.Color(NIGHT_SKY_COLOR);
+  private readonly duskColor = new THREE.Color(DUSK_COLOR);
+  private readonly underwaterColor = new THREE.Color(UNDERWATER_COLOR);
+  private readonly background: THREE.Color;
+  private readonly fog: THREE.Fog;
+  private readonly sunDisc: THREE.Mesh;
+  private readonly moonDisc: THREE.Mesh;
+  private readonly sunDirection = new THREE.Vector3();
+  private timeOfDay = START_TIME_OF_DAY;
+  readonly ambient: THREE.AmbientLight;
+  readonly sun: THREE.DirectionalLight;
+  // Share of skylight currently reaching the world, for the terrain shader.
+  daylight = 1;
+
+  constructor(scene: THREE.Scene, skyColor: number) {
+    this.scene = scene;
+    this.skyColor = new THREE.Color(skyColor);
+    this.background = this.skyColor.clone();
+    this.fog = new THREE.Fog(skyColor, FOG_NEAR, FOG_FAR);
+    this.scene.background = this.background;
+    this.scene.fog = this.fog;
+
+    this.ambient = new THREE.AmbientLight(0xffffff, 0.55);
+    this.scene.add(this.ambient);
+    this.sun = new THREE.DirectionalLight(0xffffff, 0.8);
+    this.sun.position.set(50, 120, 20);
+    this.scene.add(this.sun);
+
+    this.sunDisc = createSkyBody(SUN_COLOR, 36);
+    this.moonDisc = createSkyBody(MOON_COLOR, 24);
+    this.scene.add(this.sunDisc, this.moonDisc);
+  }
+
+  setTimeOfDay(timeOfDay: number): void {
+    this.timeOfDay = timeOfDay;
+  }
+
+  update(eyeInWater: boolean, viewer: THREE.Vector3): void {
+    const direction = getSunDirection(this.timeOfDay);
+    this.sunDirection.set(direction.x, direction.y, direction.z);
+    this.daylight = getDaylight(this.timeOfDay);
+    const dayAmount = (this.daylight - NIGHT_DAYLIGHT) / (1 - NIGHT_DAYLIGHT);
+
+    // Blend night into day, then warm the sky while the sun is close to the horizon.
+    const sky = this.background.copy(this.nightSkyColor).lerp(this.skyColor, dayAmount);
+    sky.lerp(this.duskColor, Math.max(0, 1 - Math.abs(direction.y) / 0.3) * 0.45);
+    if (eyeInWater) {
+      this.background.copy(this.underwaterColor);
+    }
+    this.fog.color.copy(this.background);
+    this.fog.near = eyeInWater ? UNDERWATER_FOG_NEAR : FOG_NEAR;
+    this.fog.far = eyeInWater ? UNDERWATER_FOG_FAR : FOG_FAR;
+
+    this.ambient.intensity = 0.12 + 0.43 * dayAmount;
+    const sunUp = direction.y > 0;
+    this.sun.position.copy(this.sunDirection).multiplyScalar(sunUp ? 120 : -120);
+    this.sun.intensity = sunUp ? 0.8 * dayAmount : 0.12;
+
+    placeSkyBody(this.sunDisc, viewer, this.sunDirection, 1);
+    placeSkyBody(this.moonDisc, viewer, this.sunDirection, -1);
+    this.sunDisc.visible = !eyeInWater && direction.y > -0.05;
+    this.moonDisc.visible = !eyeInWater && direction.y < 0.05;
+  }
+}
+
+function createSkyBody(color: number, size: number): THREE.Mesh {
+  const material = new THREE.MeshBasicMaterial({ color, fog: false });
+  const mesh = new THREE.Mesh(new THREE.PlaneGeometry(size, size), material);
+  mesh.name = "sky-body";
+  return mesh;
+}
+
+function placeSkyBody(mesh: THREE.Mesh, viewer: THREE.Vector3, direction: THREE.Vector3, sign: number): void {
+  mesh.position.copy(direction).multiplyScalar(sign * SKY_BODY_DISTANCE).add(viewer);
+  mesh.lookAt(viewer);
+}
@@ -0,0 +1,485 @@
+import { BLOCK_DEFS, isOpaqueBlock, isSolidBlock } from "../blocks";
+import { CHUNK_SIZE, WORLD_HEIGHT } from "../config";
+import { BlockId } from "../types";
+import { WATER_MAX_FLOW } from "../world/fluids";
+import { MAX_LIGHT, SKY_SHIFT } from "../world/lighting";
+
+export interface ChunkSnapshot {
+  blocks: Uint16Array;
+  meta: Uint8Array;
+  light: Uint8Array;
+}
+
+// Chunks around the meshed chunk, indexed (dx + 1) + (dz + 1) * 3. Missing neighbors are treated as
+// sunlit air so border faces stay visible and unshaded until they load.
+export type ChunkNeighborhood = Array<ChunkSnapshot | null>;
+
+export interface MeshBuffers {
+  positions: Float32Array;
+  normals: Float32Array;
+  colors: Float32Array;
+  // Smoothed skylight and block light per vertex, 0-1; the material decides how bright each one is.
+  light: Float32Array;
+  indices: Uint32Array;
+}
+
+// Water is kept apart so it can be drawn in a translucent pass after the opaque terrain.
+export interface ChunkMeshData {
+  opaque: MeshBuffers;
+  water: MeshBuffers;
+}
+
+interface MeshBuilder {
+  positions: number[];
+  normals: number[];
+  colors: number[];
+  light: number[];
+  indices: number[];
+}
+
+interface PaddedVolume {
+  blocks: Uint16Array;
+  meta: Uint8Array;
+  light: Uint8Array;
+}
+
+const DIMS = [CHUNK_SIZE, WORLD_HEIGHT, CHUNK_SIZE];
+const LAYER_SIZE = CHUNK_SIZE * CHUNK_SIZE;
+const PADDED_X = CHUNK_SIZE + 2;
+const PADDED_Y = WORLD_HEIGHT + 2;
+const PADDED_Z = CHUNK_SIZE + 2;
+const PADDED_STRIDES = [1, PADDED_X * PADDED_Z, PADDED_X];
+const SUNLIT_AIR = MAX_LIGHT << SKY_SHIFT;
+const LIGHT_SCALE = 180;
+
+// Corners of a face cell along its (u, v) axes, in the order emitQuad walks a front face.
+const CORNER_SIGNS: Array<[number, number]> = [
+  [-1, -1],
+  [1, -1],
+  [1, 1],
+  [-1, 1]
+];
+// Baked directional shading per axis, standing in for the sun now that terrain is unlit by three.js.
+const FACE_SHADE = [
+  [0.8, 0.8],
+  [0.5, 1],
+  [0.65, 0.65]
+];
+const AO_SHADE = [0.45, 0.65, 0.82, 1];
+
+// Torches are a thin post standing in the middle of their cell.
+const TORCH_MIN = [7 / 16, 0, 7 / 16];
+const TORCH_MAX = [9 / 16, 10 / 16, 9 / 16];
+// Plants are two crossed planes spanning the cell diagonals, inset slightly so they don't poke into neighbors.
+const CROSS_INSET = 0.15;
+const CROSS_HEIGHT = 0.85;
+const SHAPE_TORCH = 1;
+const SHAPE_CROSS = 2;
+
+let solidBlocks: Uint8Array | null = null;
+let shapedBlocks: Uint8Array | null = null;
+let opaqueBlocks: Uint8Array | null = null;
+let linearPalette: Map<number, [number, number, number]> | null = null;
+
+export function buildChunkMesh(neighborhood: ChunkNeighborhood): ChunkMeshData {
+  const opaque = createBuilder();
+  const water = createBuilder();
+  const volume = fillPaddedVolume(neighborhood);
+  const blocks = volume.blocks;
+  const solid = solidLookup();
+  const shaped = shapedLookup();
+  const cell = [0, 0, 0];
+
+  for (let d = 0; d < 3; d += 1) {
+    const u = (d + 1) % 3;
+    const v = (d + 2) % 3;
+    const width = DIMS[u];
+    const height = DIMS[v];
+    const mask = new Int32Array(width * height);
+    const corners = new Int32Array(width * height * 4);
+
+    for (const side of [1, -1]) {
+      const neighborOffset = side * PADDED_STRIDES[d];
+      const shade = FACE_SHADE[d][side > 0 ? 1 : 0];
+      for (cell[d] = 0; cell[d] < DIMS[d]; cell[d] += 1) {
+        let n = 0;
+        for (cell[v] = 0; cell[v] < height; cell[v] += 1) {
+          for (cell[u] = 0; cell[u] < width; cell[u] += 1) {
+            const index = paddedIndex(cell[0], cell[1], cell[2]);
+            const block = blocks[index];
+            const neighbor = blocks[index + neighborOffset];
+            let face = 0;
+            if (block === BlockId.Water) {
+              // Only surfaces and walls facing open space; the seabed side is never seen.
+              if (!(d === 1 && side < 0) && neighbor !== BlockId.Water && solid[neighbor] === 0) {
+                // Cells with different surface heights must not merge into one quad.
+                face = block | (waterDrop(volume, index) << 16);
+              }
+            } else if (block !== BlockId.Air && shaped[block] === 0 && solid[neighbor] === 0) {
+              face = block;
+            }
+            mask[n] = face;
+            if (face !== 0) {
+              sampleCorners(volume, index + neighborOffset, PADDED_STRIDES[u], PADDED_STRIDES[v], corners, n * 4);
+            }
+            n += 1;
+          }
+        }
+
+        // Merge runs of identical, evenly lit faces into the largest rectangles we can grow row by row.
+        // Faces whose corners differ keep their own quad so the light gradient survives interpolation.
+        n = 0;
+        for (let j = 0; j < height; j += 1) {
+          for (let i = 0; i < width; ) {
+            const block = mask[n];
+            if (block === 0) {
+              i += 1;
+              n += 1;
+              continue;
+            }
+
+            let w = 1;
+            let h = 1;
+            if (isEvenlyLit(corners, n)) {
+              const lighting = corners[n * 4];
+              const matches = (m: number) =>
+                mask[m] === block && isEvenlyLit(corners, m) && corners[m * 4] === lighting;
+              while (i + w < width && matches(n + w)) {
+                w += 1;
+              }
+              grow: while (j + h < height) {
+                for (let k = 0; k < w; k += 1) {
+                  if (!matches(n + k + h * width)) {
+                    break grow;
+                  }
+                }
+                h += 1;
+              }
+            }
+
+            const origin = [0, 0, 0];
+            origin[d] = cell[d] + (side > 0 ? 1 : 0);
+            origin[u] = i;
+            origin[v] = j;
+            const du = [0, 0, 0];
+            du[u] = w;
+            const dv = [0, 0, 0];
+            dv[v] = h;
+            const normal = [0, 0, 0];
+            normal[d] = side;
+            const drop = block >> 16;
+            if (drop > 0) {
+              // Lowers the surface, or the top edge of a wall, of flowing water.
+              const lowered = drop / (WATER_MAX_FLOW + 1);
+              if (d === 1) {
+                origin[1] -= lowered;
+              } else {
+                (u === 1 ? du : dv)[1] -= lowered;
+              }
+            }
+            const blockId = (block & 0xffff) as BlockId;
+            const builder = blockId === BlockId.Water ? water : opaque;
+            emitQuad(builder, origin, du, dv, normal, blockId, side > 0, shade, corners, n * 4);
+
+            for (let y = 0; y < h; y += 1) {
+              for (let x = 0; x < w; x += 1) {
+                mask[n + x + y * width] = 0;
+              }
+            }
+            i += w;
+            n += w;
+          }
+        }
+      }
+    }
+  }
+
+  emitShapedBlocks(volume, opaque);
+  return { opaque: finishBuilder(opaque), water: finishBuilder(water) };
+}
+
+export function meshTransferables(data: ChunkMeshData): Transferable[] {
+  const transfer: Transferable[] = [];
+  for (const buffers of [data.opaque, data.water]) {
+    transfer.push(
+      buffers.positions.buffer,
+      buffers.normals.buffer,
+      buffers.colors.buffer,
+      buffers.light.buffer,
+      buffers.indices.buffer
+    );
+  }
+  return transfer;
+}
+
+function createBuilder(): MeshBuilder {
+  return { positions: [], normals: [], colors: [], light: [], indices: [] };
+}
+
+function finishBuilder(builder: MeshBuilder): MeshBuffers {
+  return {
+    positions: new Float32Array(builder.positions),
+    normals: new Float32Array(builder.normals),
+    colors: new Float32Array(builder.colors),
+    light: new Float32Array(builder.light),
+    indices: new Uint32Array(builder.indices)
+  };
+}
+
+function emitQuad(
+  builder: MeshBuilder,
+  origin: number[],
+  du: number[],
+  dv: number[],
+  normal: number[],
+  block: BlockId,
+  frontFacing: boolean,
+  shade: number,
+  corners: Int32Array,
+  cornerOffset: number
+): void {
+  const { positions, normals, colors, light, indices } = builder;
+  const base = positions.length / 3;
+  // du x dv points along the positive axis, so negative faces walk the corners the other way round.
+  const points = frontFacing
+    ? [origin, add(origin, du), add(add(origin, du), dv), add(origin, dv)]
+    : [origin, add(origin, dv), add(add(origin, du), dv), add(origin, du)];
+  const order = frontFacing ? [0, 1, 2, 3] : [0, 3, 2, 1];
+  const [r, g, b] = blockColor(block);
+  const occlusion: number[] = [];
+
+  for (let k = 0; k < 4; k += 1) {
+    const point = points[k];
+    const corner = corners[cornerOffset + order[k]];
+    const ao = corner >> 16;
+    const brightness = shade * AO_SHADE[ao];
+    occlusion.push(ao);
+    positions.push(point[0], point[1], point[2]);
+    normals.push(normal[0], normal[1], normal[2]);
+    colors.push(r * brightness, g * brightness, b * brightness);
+    light.push(((corner >> 8) & 0xff) / LIGHT_SCALE, (corner & 0xff) / LIGHT_SCALE);
+  }
+  // Split along the brighter diagonal so occlusion doesn't bleed into an anisotropic streak.
+  if (occlusion[0] + occlusion[2] < occlusion[1] + occlusion[3]) {
+    indices.push(base + 1, base + 2, base + 3, base + 1, base + 3, base);
+  } else {
+    indices.push(base, base + 1, base + 2, base, base + 2, base + 3);
+  }
+}
+
+// Non-cube blocks skip the greedy pass and are drawn as small models, lit evenly by the cell they occupy.
+function emitShapedBlocks(volume: PaddedVolume, builder: MeshBuilder): void {
+  const shaped = shapedLookup();
+  const corners = new Int32Array(4);
+  for (let y = 0; y < WORLD_HEIGHT; y += 1) {
+    for (let z = 0; z < CHUNK_SIZE; z += 1) {
+      for (let x = 0; x < CHUNK_SIZE; x += 1) {
+        const index = paddedIndex(x, y, z);
+        const block = volume.blocks[index];
+        if (shaped[block] === 0) {
+          continue;
+        }
+        const light = volume.light[index];
+        const sky = (light >> SKY_SHIFT) * (LIGHT_SCALE / MAX_LIGHT);
+        const glow = (light & 0xf) * (LIGHT_SCALE / MAX_LIGHT);
+        corners.fill((3 << 16) | (sky << 8) | glow);
+        if (shaped[block] === SHAPE_CROSS) {
+          emitCross(builder, [x, y, z], block as BlockId, corners);
+        } else {
+          emitBox(builder, [x, y, z], TORCH_MIN, TORCH_MAX, block as BlockId, corners);
+        }
+      }
+    }
+  }
+}
+
+function emitBox(
+  builder: MeshBuilder,
+  position: number[],
+  min: number[],
+  max: number[],
+  block: BlockId,
+  corners: Int32Array
+): void {
+  for (let d = 0; d < 3; d += 1) {
+    const u = (d + 1) % 3;
+    const v = (d + 2) % 3;
+    for (const side of [1, -1]) {
+      if (d === 1 && side < 0) {
+        continue;
+      }
+      const origin = add(position, min);
+      origin[d] = position[d] + (side > 0 ? max[d] : min[d]);
+      const du = [0, 0, 0];
+      du[u] = max[u] - min[u];
+      const dv = [0, 0, 0];
+      dv[v] = max[v] - min[v];
+      const normal = [0, 0, 0];
+      normal[d] = side;
+      emitQuad(builder, origin, du, dv, normal, block, side > 0, FACE_SHADE[d][side > 0 ? 1 : 0], corners, 0);
+    }
+  }
+}
+
+// Each plane is emitted facing both ways since its back is just as visible as its front.
+function emitCross(builder: MeshBuilder, position: number[], block: BlockId, corners: Int32Array): void {
+  const span = 1 - CROSS_INSET * 2;
+  const dv = [0, CROSS_HEIGHT, 0];
+  const planes = [
+    { origin: [CROSS_INSET, 0, CROSS_INSET], du: [span, 0, span], normal: [-Math.SQRT1_2, 0, Math.SQRT1_2] },
+    { origin: [CROSS_INSET, 0, 1 - CROSS_INSET], du: [span, 0, -span], normal: [Math.SQRT1_2, 0, Math.SQRT1_2] }
+  ];
+  for (const plane of planes) {
+    const origin = add(position, plane.origin);
+    const back = plane.normal.map((value) => -value);
+    emitQuad(builder, origin, plane.du, dv, plane.normal, block, true, FACE_SHADE[0][1], corners, 0);
+    emitQuad(builder, origin, plane.du, dv, back, block, false, FACE_SHADE[0][1], corners, 0);
+  }
+}
+
+function add(a: number[], b: number[]): number[] {
+  return [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+}
+
+// Copies the chunk plus a one-block border from its neighbors so face tests never branch on bounds.
+function fillPaddedVolume(neighborhood: ChunkNeighborhood): PaddedVolume {
+  const size = PADDED_X * PADDED_Y * PADDED_Z;
+  const volume: PaddedVolume = {
+    blocks: new Uint16Array(size),
+    meta: new Uint8Array(size),
+    light: new Uint8Array(size).fill(SUNLIT_AIR)
+  };
+  for (let dz = -1; dz <= 1; dz += 1) {
+    for (let dx = -1; dx <= 1; dx += 1) {
+      const snapshot = neighborhood[dx + 1 + (dz + 1) * 3];
+      if (!snapshot) {
+        continue;
+      }
+      const minX = dx < 0 ? CHUNK_SIZE - 1 : 0;
+      const maxX = dx > 0 ? 0 : CHUNK_SIZE - 1;
+      const minZ = dz < 0 ? CHUNK_SIZE - 1 : 0;
+      const maxZ = dz > 0 ? 0 : CHUNK_SIZE - 1;
+      for (let y = 0; y < WORLD_HEIGHT; y += 1) {
+        for (let z = minZ; z <= maxZ; z += 1) {
+          for (let x = minX; x <= maxX; x += 1) {
+            const source = x + z * CHUNK_SIZE + y * LAYER_SIZE;
+            const target = paddedIndex(x + dx * CHUNK_SIZE, y, z + dz * CHUNK_SIZE);
+            volume.blocks[target] = snapshot.blocks[source];
+            volume.meta[target] = snapshot.meta[source];
+            volume.light[target] = snapshot.light[source];
+          }
+        }
+      }
+    }
+  }
+  return volume;
+}
+
+// Packs ambient occlusion and smoothed light for the four corners of the face whose open side is the
+// cell at `front`. Each corner averages the front cell with the three cells around that corner,
+// skipping opaque ones, and a corner boxed in by both sides takes nothing from the diagonal.
+function sampleCorners(
+  volume: PaddedVolume,
+  front: number,
+  uStride: number,
+  vStride: number,
+  out: Int32Array,
+  offset: number
+): void {
+  const opaque = opaqueLookup();
+  const solid = solidLookup();
+  const { blocks, light } = volume;
+  for (let k = 0; k < 4; k += 1) {
+    const [su, sv] = CORNER_SIGNS[k];
+    const side1 = front + su * uStride;
+    const side2 = front + sv * vStride;
+    const diagonal = side1 + sv * vStride;
+    const blocked1 = solid[blocks[side1]];
+    const blocked2 = solid[blocks[side2]];
+    const ao = blocked1 && blocked2 ? 0 : 3 - blocked1 - blocked2 - solid[blocks[diagonal]];
+
+    let sky = light[front] >> SKY_SHIFT;
+    let glow = light[front] & 0xf;
+    let samples = 1;
+    for (const cell of opaque[blocks[side1]] && opaque[blocks[side2]] ? [side1, side2] : [side1, side2, diagonal]) {
+      if (opaque[blocks[cell]] === 0) {
+        sky += light[cell] >> SKY_SHIFT;
+        glow += light[cell] & 0xf;
+        samples += 1;
+      }
+    }
+    // Averages are stored as multiples of 1/LIGHT_SCALE, which is exact for 1-4 samples of 0-15.
+    const skyLevel = (sky * (LIGHT_SCALE / MAX_LIGHT)) / samples;
+    const glowLevel = (glow * (LIGHT_SCALE / MAX_LIGHT)) / samples;
+    out[offset + k] = (ao << 16) | (skyLevel << 8) | glowLevel;
+  }
+}
+
+// How far below a full block the water surface in a cell sits, in eighths: 0 for sources, falling water and
+// anything with water above it, otherwise the flow level.
+function waterDrop(volume: PaddedVolume, index: number): number {
+  const level = volume.meta[index];
+  if (level > WATER_MAX_FLOW || volume.blocks[index + PADDED_STRIDES[1]] === BlockId.Water) {
+    return 0;
+  }
+  return level;
+}
+
+function isEvenlyLit(corners: Int32Array, cell: number): boolean {
+  const offset = cell * 4;
+  const first = corners[offset];
+  return corners[offset + 1] === first && corners[offset + 2] === first && corners[offset + 3] === first;
+}
+
+function paddedIndex(x: number, y: number, z: number): number {
+  return x + 1 + (y + 1) * PADDED_STRIDES[1] + (z + 1) * PADDED_STRIDES[2];
+}
+
+function solidLookup(): Uint8Array {
+  if (!solidBlocks) {
+    solidBlocks = new Uint8Array(65536);
+    for (const def of Object.values(BLOCK_DEFS)) {
+      solidBlocks[def.id] = isSolidBlock(def.id) ? 1 : 0;
+    }
+  }
+  return solidBlocks;
+}
+
+function shapedLookup(): Uint8Array {
+  if (!shapedBlocks) {
+    shapedBlocks = new Uint8Array(65536);
+    for (const def of Object.values(BLOCK_DEFS)) {
+      shapedBlocks[def.id] = def.shape === "cross" ? SHAPE_CROSS : def.shape === "torch" ? SHAPE_TORCH : 0;
+    }
+  }
+  return shapedBlocks;
+}
+
+function opaqueLookup(): Uint8Array {
+  if (!opaqueBlocks) {
+    opaqueBlocks = new Uint8Array(65536);
+    for (const def of Object.values(BLOCK_DEFS)) {
+      opaqueBlocks[def.id] = isOpaqueBlock(def.id) ? 1 : 0;
+    }
+  }
+  return opaqueBlocks;
+}
+
+// Vertex colors are read as linear values, while BLOCK_DEFS colors are authored in sRGB.
+function blockColor(block: BlockId): [number, number, number] {
+  if (!linearPalette) {
+    linearPalette = new Map();
+    for (const def of Object.values(BLOCK_DEFS)) {
+      linearPalette.set(def.id, [
+        srgbToLinear(((def.color >> 16) & 0xff) / 255),
+        srgbToLinear(((def.color >> 8) & 0xff) / 255),
+        srgbToLinear((def.color & 0xff) / 255)
+      ]);
+    }
+  }
+  return linearPalette.get(block) ?? [1, 0, 1];
+}
+
+function srgbToLinear(c: number): number {
+  return c < 0.04045 ? c * 0.0773993808 : Math.pow(c * 0.9478672986 + 0.0521327014, 2.4);
+}
@@ -1,8 +1,8 @@
 import * as THREE from "three";
-import { BlockId } from "../types";
-import { BLOCK_DEFS, isSolidBlock } from "../blocks";
-import { CHUNK_SIZE, WORLD_HEIGHT } from "../config";
-import { parseChunkKey } from "../world/chunk";
+import { CHUNK_SIZE } from "../config";
+import { ChunkData, parseChunkKey } from "../world/chunk";
+import { ChunkWorkerPool } from "../workers/chunkWorkerPool";
+import { ChunkMeshData, ChunkNeighborhood, MeshBuffers } from "./chunkMesher";
 
 interface RenderChunkState {
   meshDirty: boolean;
@@ -11,170 +11,201 @@ interface RenderChunkState {
 export interface RenderWorld {
   forEachChunk(callback: (key: string, state: RenderChunkState) => void): void;
   hasChunk(cx: number, cz: number): boolean;
-  getBlock(x: number, y: number, z: number): BlockId;
+  getLoadedChunk(cx: number, cz: number): ChunkData | null;
 }
 
-const CARDINAL_NEIGHBORS: Array<[number, number, number]> = [
-  [1, 0, 0],
-  [-1, 0, 0],
-  [0, 1, 0],
-  [0, -1, 0],
-  [0, 0, 1],
-  [0, 0, -1]
-];
+interface ChunkMeshes {
+  opaque: THREE.Mesh | null;
+  water: THREE.Mesh | null;
+}
 
 export class TerrainRenderer {
   private readonly scene: THREE.Scene;
   private readonly world: RenderWorld;
-  private readonly chunkGroups = new Map<string, THREE.Group>();
-  private readonly cubeGeometry: THREE.BoxGeometry;
-  private readonly materials = new Map<BlockId, THREE.MeshLambertMaterial>();
-  private readonly dummy = new THREE.Object3D();
+  private readonly workers: ChunkWorkerPool;
+  private readonly chunkMeshes = new Map<string, ChunkMeshes>();
+  private readonly inFlight = new Set<string>();
+  private readonly material: THREE.MeshBasicMaterial;
+  private readonly waterMaterial: THREE.MeshBasicMaterial;
+  private readonly daylight = { value: 1 };
+  private disposed = false;
 
   lastBuildDurationMs = 0;
 
-  constructor(scene: THREE.Scene, world: RenderWorld) {
+  constructor(scene: THREE.Scene, world: RenderWorld, workers: ChunkWorkerPool) {
     this.scene = scene;
     this.world = world;
-    this.cubeGeometry = new THREE.BoxGeometry(1, 1, 1);
+    this.workers = workers;
+    this.material = createVoxelMaterial({ vertexColors: true }, this.daylight);
+    this.waterMaterial = createVoxelMaterial(
+      {
+        vertexColors: true,
+        transparent: true,
+        opacity: 0.62,
+        depthWrite: false,
+        side: THREE.DoubleSide
+      },
+      this.daylight
+    );
+  }
 
-    for (const value of Object.values(BlockId)) {
-      if (typeof value !== "number") {
-        continue;
-      }
-      if (value === BlockId.Air) {
-        continue;
-      }
-      const def = BLOCK_DEFS[value];
-      this.materials.set(
-        value,
-        new THREE.MeshLambertMaterial({
-          color: def.color
-        })
-      );
-    }
+  // How much of the stored skylight reaches the terrain, 0 at night to 1 at noon.
+  setDaylight(value: number): void {
+    this.daylight.value = THREE.MathUtils.clamp(value, 0, 1);
   }
 
-  update(maxChunkRebuilds = 2): void {
-    const startedAt = performance.now();
-    this.removeStaleChunkGroups();
+  update(maxInFlightBuilds = 2): void {
+    this.removeStaleChunkMeshes();
 
-    let rebuilt = 0;
     this.world.forEachChunk((key, state) => {
-      if (rebuilt >= maxChunkRebuilds) {
+      if (this.inFlight.size >= maxInFlightBuilds) {
         return;
       }
-      if (!state.meshDirty) {
+      if (!state.meshDirty || this.inFlight.has(key)) {
         return;
       }
-      this.rebuildChunk(key);
+      // Edits that land while the worker is busy re-flag the chunk and get picked up next time.
       state.meshDirty = false;
-      rebuilt += 1;
+      this.requestRebuild(key, state);
     });
-
-    this.lastBuildDurationMs = performance.now() - startedAt;
   }
 
   dispose(): void {
-    for (const group of this.chunkGroups.values()) {
-      this.disposeGroup(group);
-    }
-    this.chunkGroups.clear();
-    this.cubeGeometry.dispose();
-    for (const material of this.materials.values()) {
-      material.dispose();
+    this.disposed = true;
+    for (const meshes of this.chunkMeshes.values()) {
+      this.disposeChunkMeshes(meshes);
     }
+    this.chunkMeshes.clear();
+    this.inFlight.clear();
+    this.material.dispose();
+    this.waterMaterial.dispose();
   }
 
-  private removeStaleChunkGroups(): void {
-    for (const [key, group] of this.chunkGroups.entries()) {
+  private removeStaleChunkMeshes(): void {
+    for (const [key, meshes] of this.chunkMeshes.entries()) {
       const { cx, cz } = parseChunkKey(key);
       if (this.world.hasChunk(cx, cz)) {
         continue;
       }
-      this.disposeGroup(group);
-      this.chunkGroups.delete(key);
+      this.disposeChunkMeshes(meshes);
+      this.chunkMeshes.delete(key);
     }
   }
 
-  private disposeGroup(group: THREE.Group): void {
-    this.scene.remove(group);
-    for (const child of group.children) {
-      const mesh = child as THREE.InstancedMesh;
-      mesh.dispose();
+  private disposeChunkMeshes(meshes: ChunkMeshes): void {
+    for (const mesh of [meshes.opaque, meshes.water]) {
+      if (!mesh) {
+        continue;
+      }
+      this.scene.remove(mesh);
+      mesh.geometry.dispose();
     }
   }
 
-  private rebuildChunk(key: string): void {
-    const existing = this.chunkGroups.get(key);
-    if (existing) {
-      this.disposeGroup(existing);
-      this.chunkGroups.delete(key);
-    }
-
-    const coords = parseChunkKey(key);
-    const worldXBase = coords.cx * CHUNK_SIZE;
-    const worldZBase = coords.cz * CHUNK_SIZE;
-    const instancesByBlock = new Map<BlockId, Array<[number, number, number]>>();
-
-    for (let lx = 0; lx < CHUNK_SIZE; lx += 1) {
-      for (let lz = 0; lz < CHUNK_SIZE; lz += 1) {
-        for (let y = 0; y < WORLD_HEIGHT; y += 1) {
-          const wx = worldXBase + lx;
-          const wz = worldZBase + lz;
-          const block = this.world.getBlock(wx, y, wz);
-          if (block === BlockId.Air || block === BlockId.Water) {
-            continue;
-          }
-          if (!this.isBlockVisible(wx, y, wz)) {
-            continue;
-          }
-          let entries = instancesByBlock.get(block);
-          if (!entries) {
-            entries = [];
-            instancesByBlock.set(block, entries);
-          }
-          entries.push([wx, y, wz]);
+  private requestRebuild(key: string, state: RenderChunkState): void {
+    const { cx, cz } = parseChunkKey(key);
+    const startedAt = performance.now();
+    this.inFlight.add(key);
+    this.workers.meshChunk(this.collectNeighborhood(cx, cz)).then(
+      (data) => {
+        this.inFlight.delete(key);
+        if (this.disposed || !this.world.hasChunk(cx, cz)) {
+          return;
         }
+        this.applyChunkMesh(key, data);
+        this.lastBuildDurationMs = performance.now() - startedAt;
+      },
+      () => {
+        // Flagged again so a failed build is retried on a later update.
+        this.inFlight.delete(key);
+        state.meshDirty = true;
       }
-    }
+    );
+  }
 
-    const group = new THREE.Group();
-    group.name = `chunk:${key}`;
+  private applyChunkMesh(key: string, data: ChunkMeshData): void {
+    const existing = this.chunkMeshes.get(key);
+    if (existing) {
+      this.disposeChunkMeshes(existing);
+      this.chunkMeshes.delete(key);
+    }
 
-    for (const [block, positions] of instancesByBlock.entries()) {
-      if (positions.length === 0) {
-        continue;
-      }
-      const material = this.materials.get(block);
-      if (!material) {
-        continue;
-      }
-      const mesh = new THREE.InstancedMesh(this.cubeGeometry, material, positions.length);
-      let index = 0;
-      for (const [wx, y, wz] of positions) {
-        this.dummy.position.set(wx + 0.5, y + 0.5, wz + 0.5);
-        this.dummy.updateMatrix();
-        mesh.setMatrixAt(index, this.dummy.matrix);
-        index += 1;
-      }
-      mesh.instanceMatrix.needsUpdate = true;
-      mesh.castShadow = false;
-      mesh.receiveShadow = false;
-      group.add(mesh);
+    const { cx, cz } = parseChunkKey(key);
+    const opaque = this.createChunkMesh(`chunk:${key}`, cx, cz, data.opaque, this.material);
+    const water = this.createChunkMesh(`water:${key}`, cx, cz, data.water, this.waterMaterial);
+    if (water) {
+      // Translucent surfaces blend over whatever terrain is already in the depth buffer.
+      water.renderOrder = 1;
     }
+    if (opaque || water) {
+      this.chunkMeshes.set(key, { opaque, water });
+    }
+  }
 
-    this.scene.add(group);
-    this.chunkGroups.set(key, group);
+  private createChunkMesh(
+    name: string,
+    cx: number,
+    cz: number,
+    buffers: MeshBuffers,
+    material: THREE.Material
+  ): THREE.Mesh | null {
+    if (buffers.indices.length === 0) {
+      return null;
+    }
+    const mesh = new THREE.Mesh(createGeometry(buffers), material);
+    mesh.name = name;
+    mesh.position.set(cx * CHUNK_SIZE, 0, cz * CHUNK_SIZE);
+    mesh.castShadow = false;
+    mesh.receiveShadow = false;
+    this.scene.add(mesh);
+    return mesh;
   }
 
-  private isBlockVisible(x: number, y: number, z: number): boolean {
-    for (const [dx, dy, dz] of CARDINAL_NEIGHBORS) {
-      const neighbor = this.world.getBlock(x + dx, y + dy, z + dz);
-      if (!isSolidBlock(neighbor)) {
-        return true;
+  private collectNeighborhood(cx: number, cz: number): ChunkNeighborhood {
+    const neighborhood: ChunkNeighborhood = [];
+    for (let dz = -1; dz <= 1; dz += 1) {
+      for (let dx = -1; dx <= 1; dx += 1) {
+        // Copies, since the buffers are handed over to the worker.
+        const chunk = this.world.getLoadedChunk(cx + dx, cz + dz);
+        neighborhood.push(
+          chunk ? { blocks: chunk.blocks.slice(), meta: chunk.meta.slice(), light: chunk.light.slice() } : null
+        );
       }
     }
-    return false;
+    return neighborhood;
   }
 }
+
+function createGeometry(data: MeshBuffers): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.BufferAttribute(data.positions, 3));
+  geometry.setAttribute("normal", new THREE.BufferAttribute(data.normals, 3));
+  geometry.setAttribute("color", new THREE.BufferAttribute(data.colors, 3));
+  geometry.setAttribute("voxelLight", new THREE.BufferAttribute(data.light, 2));
+  geometry.setIndex(new THREE.BufferAttribute(data.indices, 1));
+  geometry.computeBoundingSphere();
+  return geometry;
+}
+
+// Terrain is shaded from the baked voxel light instead of scene lights: the brighter of skylight (scaled
+// by daylight) and block light picks a brightness on a falloff curve, with a floor so caves aren't pitch black.
+function createVoxelMaterial(
+  parameters: THREE.MeshBasicMaterialParameters,
+  daylight: { value: number }
+): THREE.MeshBasicMaterial {
+  const material = new THREE.MeshBasicMaterial(parameters);
+  material.onBeforeCompile = (shader) => {
+    shader.uniforms.daylight = daylight;
+    shader.vertexShader = shader.vertexShader
+      .replace("#include <common>", "#include <common>\nattribute vec2 voxelLight;\nuniform float daylight;")
+      .replace(
+        "#include <color_vertex>",
+        [
+          "#include <color_vertex>",
+          "float voxelBrightness = max(voxelLight.x * daylight, voxelLight.y);",
+          "vColor.rgb *= max(0.04, pow(0.8, (1.0 - voxelBrightness) * 15.0));"
+        ].join("\n")
+      );
+  };
+  return material;
+}
@@ -1,5 +1,7 @@
 import { DB_NAME, DB_VERSION } from "../config";
 import { PlayerSaveState, WorldMeta } from "../types";
+import { parseBlockEntities } from "../shared/blockEntities";
+import { BlockEntityState } from "../shared/protocol";
 
 const STORE_META = "meta";
 const STORE_CHUNKS = "chunks";
@@ -8,6 +10,14 @@ const STORE_PLAYER = "player";
 interface ChunkRecord {
   key: string;
   blocks: ArrayBuffer;
+  meta?: ArrayBuffer;
+  entities?: unknown[];
+}
+
+export interface PersistedChunk {
+  blocks: Uint16Array;
+  meta: Uint8Array | null;
+  entities: BlockEntityState[];
 }
 
 export class IndexedDbSaveRepository {
@@ -45,17 +55,28 @@ export class IndexedDbSaveRepository {
     await this.putRecord(STORE_META, { key: "world", value: meta });
   }
 
-  async loadChunk(key: string): Promise<Uint16Array | null> {
+  async loadChunk(key: string): Promise<PersistedChunk | null> {
     const record = await this.getRecord<ChunkRecord>(STORE_CHUNKS, key);
     if (!record) {
       return null;
     }
-    return new Uint16Array(record.blocks.slice(0));
+    return {
+      blocks: new Uint16Array(record.blocks.slice(0)),
+      // Saves from before block metadata existed only carry ids.
+      meta: record.meta ? new Uint8Array(record.meta.slice(0)) : null,
+      entities: parseBlockEntities(record.entities)
+    };
   }
 
-  async saveChunk(key: string, blocks: Uint16Array): Promise<void> {
-    const copy = blocks.slice().buffer;
-    await this.putRecord(STORE_CHUNKS, { key, blocks: copy });
+  async saveChunk(key: string, blocks: Uint16Array, meta: Uint8Array, entities: BlockEntityState[]): Promise<void> {
+    const record: ChunkRecord = {
+      key,
+      blocks: blocks.slice().buffer,
+      meta: meta.slice().buffer,
+      // Structured clone copies the entities, so later ticks don't touch the stored record.
+      entities
+    };
+    await this.putRecord(STORE_CHUNKS, record);
   }
 
   async loadPlayer(): Promise<PlayerSaveState | null> {
@@ -0,0 +1,70 @@
+import { BlockId } from "../types";
+import { canPlaceInChest, createChest } from "./chest";
+import { canPlaceInFurnace, createFurnace, tickFurnace } from "./furnace";
+import { SlotContainer } from "./inventorySlots";
+import { BlockEntitySchema, BlockEntityState, SharedItemStack } from "./protocol";
+
+// Blocks that carry per-position state alongside their id.
+const BLOCK_ENTITY_TYPES: Partial<Record<BlockId, BlockEntityState["type"]>> = {
+  [BlockId.Furnace]: "furnace",
+  [BlockId.Chest]: "chest"
+};
+
+export function getBlockEntityType(block: BlockId): BlockEntityState["type"] | null {
+  return BLOCK_ENTITY_TYPES[block] ?? null;
+}
+
+export function createBlockEntity(block: BlockId, x: number, y: number, z: number): BlockEntityState | null {
+  switch (getBlockEntityType(block)) {
+    case "furnace":
+      return createFurnace(x, y, z);
+    case "chest":
+      return createChest(x, y, z);
+    default:
+      return null;
+  }
+}
+
+export function getBlockEntityContainer(entity: BlockEntityState): SlotContainer<SharedItemStack> {
+  switch (entity.type) {
+    case "furnace":
+      return { slots: entity.slots, canPlace: canPlaceInFurnace };
+    case "chest":
+      return { slots: entity.slots, canPlace: canPlaceInChest };
+  }
+}
+
+// Block entities keep running whether or not anyone has them open. Returns whether the state changed.
+export function tickBlockEntity(entity: BlockEntityState, dt: number): boolean {
+  switch (entity.type) {
+    case "furnace":
+      return tickFurnace(entity, dt);
+    case "chest":
+      return false;
+  }
+}
+
+// Whether viewers need periodic updates while nobody touches the slots, e.g. to follow smelting progress.
+export function hasBlockEntityProgress(entity: BlockEntityState): boolean {
+  return entity.type === "furnace";
+}
+
+// Everything the block was holding, to be scattered when it is broken.
+export function getBlockEntityDrops(entity: BlockEntityState): SharedItemStack[] {
+  return entity.slots.filter((stack): stack is SharedItemStack => stack !== null);
+}
+
+// Skips entries that fail validation instead of losing the whole chunk to one bad record.
+export function parseBlockEntities(raw: unknown): BlockEntityState[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  const entities: BlockEntityState[] = [];
+  for (const entry of raw) {
+    const result = BlockEntitySchema.safeParse(entry);
+    if (result.success) {
+      entities.push(result.data);
+    }
+  }
+  return entities;
+}
@@ -0,0 +1,11 @@
+import { CHEST_SLOT_COUNT } from "../config";
+import { ChestState } from "./protocol";
+
+export function createChest(x: number, y: number, z: number): ChestState {
+  return { type: "chest", x, y, z, slots: new Array(CHEST_SLOT_COUNT).fill(null) };
+}
+
+// Chests take anything.
+export function canPlaceInChest(): boolean {
+  return true;
+}
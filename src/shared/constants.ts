@@ -1,4 +1,4 @@
-export const PROTOCOL_VERSION = 1;
+export const PROTOCOL_VERSION = 10;
 export const DEFAULT_ROOM_CODE = "alpha";
 export const DEFAULT_SERVER_PORT = 8080;
 export const SERVER_TICK_RATE = 20;
@@ -0,0 +1,101 @@
+import { SharedItemId, SharedItemStack } from "./protocol";
+
+// Crafting grid matching shared by the client preview and the server's validation. Recipes are matched
+// against the item ids in the grid's slots, ignoring how many each stack holds.
+export type GridCell = SharedItemId | null;
+
+// Rows of single-character keys; a space is an empty cell. Shaped recipes may sit anywhere in a grid
+// and also match when mirrored left to right.
+export interface ShapedRecipeShape {
+  type: "shaped";
+  pattern: string[];
+  key: Record<string, SharedItemId>;
+}
+
+export interface ShapelessRecipeShape {
+  type: "shapeless";
+  ingredients: SharedItemId[];
+}
+
+export type RecipeShape = ShapedRecipeShape | ShapelessRecipeShape;
+
+export interface GridRecipe {
+  shape: RecipeShape;
+}
+
+export const INVENTORY_GRID_SIZE = 2;
+export const TABLE_GRID_SIZE = 3;
+
+export function getGridSize(grid: GridCell[]): number | null {
+  if (grid.length === INVENTORY_GRID_SIZE * INVENTORY_GRID_SIZE) {
+    return INVENTORY_GRID_SIZE;
+  }
+  if (grid.length === TABLE_GRID_SIZE * TABLE_GRID_SIZE) {
+    return TABLE_GRID_SIZE;
+  }
+  return null;
+}
+
+export function findGridRecipe<T extends GridRecipe>(recipes: readonly T[], grid: GridCell[]): T | null {
+  const size = getGridSize(grid);
+  if (size === null) {
+    return null;
+  }
+  return recipes.find((recipe) => matchesShape(recipe.shape, grid, size)) ?? null;
+}
+
+export function getGridPattern(slots: (SharedItemStack | null)[]): GridCell[] {
+  return slots.map((stack) => stack?.item ?? null);
+}
+
+function matchesShape(shape: RecipeShape, grid: GridCell[], size: number): boolean {
+  if (shape.type === "shapeless") {
+    const filled = grid.filter((cell): cell is SharedItemId => cell !== null).sort();
+    const needed = [...shape.ingredients].sort();
+    return filled.length === needed.length && filled.every((cell, i) => cell === needed[i]);
+  }
+
+  const bounds = getFilledBounds(grid, size);
+  const height = shape.pattern.length;
+  const width = Math.max(...shape.pattern.map((row) => row.length));
+  if (!bounds || bounds.height !== height || bounds.width !== width) {
+    return false;
+  }
+  return [false, true].some((mirrored) => {
+    for (let row = 0; row < height; row += 1) {
+      for (let col = 0; col < width; col += 1) {
+        const symbol = shape.pattern[row][mirrored ? width - 1 - col : col] ?? " ";
+        const expected = symbol === " " ? null : shape.key[symbol] ?? null;
+        if (grid[(bounds.row + row) * size + bounds.col + col] !== expected) {
+          return false;
+        }
+      }
+    }
+    return true;
+  });
+}
+
+function getFilledBounds(
+  grid: GridCell[],
+  size: number
+): { row: number; col: number; width: number; height: number } | null {
+  let minRow = size;
+  let maxRow = -1;
+  let minCol = size;
+  let maxCol = -1;
+  for (let i = 0; i < grid.length; i += 1) {
+    if (!grid[i]) {
+      continue;
+    }
+    const row = Math.floor(i / size);
+    const col = i % size;
+    minRow = Math.min(minRow, row);
+    maxRow = Math.max(maxRow, row);
+    minCol = Math.min(minCol, col);
+    maxCol = Math.max(maxCol, col);
+  }
+  if (maxRow < 0) {
+    return null;
+  }
+  return { row: minRow, col: minCol, width: maxCol - minCol + 1, height: maxRow - minRow + 1 };
+}
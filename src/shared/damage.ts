@@ -0,0 +1,99 @@
+import {
+  AIR_REFILL_RATE,
+  DROWNING_DAMAGE,
+  DROWNING_DAMAGE_SECONDS,
+  PLAYER_EYE_HEIGHT,
+  PLAYER_MAX_AIR,
+  SAFE_FALL_DISTANCE,
+  SUFFOCATION_DAMAGE,
+  SUFFOCATION_DAMAGE_SECONDS
+} from "../config";
+import { reduceByArmor } from "../armor";
+import { DamageCause, DamageEvent } from "./protocol";
+
+// Environmental damage rules shared by single player and the authoritative server.
+export interface HazardWorld {
+  isSolid(x: number, y: number, z: number): boolean;
+  isLiquid(x: number, y: number, z: number): boolean;
+  isSuffocating(x: number, y: number, z: number): boolean;
+}
+
+export interface HazardState {
+  // Blocks dropped since last standing on ground or touching water.
+  fallDistance: number;
+  lastY: number | null;
+  air: number;
+  drowningTimer: number;
+  suffocationTimer: number;
+}
+
+export interface HazardSample {
+  position: { x: number; y: number; z: number };
+  onGround: boolean;
+  inLiquid: boolean;
+}
+
+// Armor only softens blows from mobs; falls, drowning and the rest go straight through.
+export function getDamageTaken(amount: number, cause: DamageCause, defense: number): number {
+  return cause === "mob" && defense > 0 ? reduceByArmor(amount, defense) : amount;
+}
+
+export function createHazardState(): HazardState {
+  return { fallDistance: 0, lastY: null, air: PLAYER_MAX_AIR, drowningTimer: 0, suffocationTimer: 0 };
+}
+
+// Runs after each movement step and returns whatever damage the player took during it.
+export function tickHazards(state: HazardState, world: HazardWorld, sample: HazardSample, dt: number): DamageEvent[] {
+  const events: DamageEvent[] = [];
+  const { position } = sample;
+
+  if (state.lastY !== null && position.y < state.lastY) {
+    state.fallDistance += state.lastY - position.y;
+  }
+  state.lastY = position.y;
+  if (sample.inLiquid) {
+    // Landing in water breaks any fall.
+    state.fallDistance = 0;
+  } else if (sample.onGround) {
+    const damage = Math.floor(state.fallDistance - SAFE_FALL_DISTANCE);
+    state.fallDistance = 0;
+    if (damage > 0) {
+      events.push({ cause: "fall", amount: damage });
+    }
+  }
+
+  const headX = Math.floor(position.x);
+  const headY = Math.floor(position.y + PLAYER_EYE_HEIGHT);
+  const headZ = Math.floor(position.z);
+  if (world.isLiquid(headX, headY, headZ)) {
+    state.air = Math.max(0, state.air - dt);
+  } else {
+    state.air = Math.min(PLAYER_MAX_AIR, state.air + dt * AIR_REFILL_RATE);
+  }
+  if (state.air > 0) {
+    state.drowningTimer = 0;
+  } else if (advanceTimer(state, "drowningTimer", dt, DROWNING_DAMAGE_SECONDS)) {
+    events.push({ cause: "drowning", amount: DROWNING_DAMAGE });
+  }
+
+  if (!world.isSuffocating(headX, headY, headZ)) {
+    state.suffocationTimer = 0;
+  } else if (advanceTimer(state, "suffocationTimer", dt, SUFFOCATION_DAMAGE_SECONDS)) {
+    events.push({ cause: "suffocation", amount: SUFFOCATION_DAMAGE });
+  }
+  return events;
+}
+
+function advanceTimer(
+  state: HazardState,
+  timer: "drowningTimer" | "suffocationTimer",
+  dt: number,
+  interval: number
+): boolean {
+  state[timer] += dt;
+  if (state[timer] < interval) {
+    return false;
+  }
+  state[timer] -= interval;
+  return true;
+}
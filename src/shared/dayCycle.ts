@@ -0,0 +1,31 @@
+import { DAY_LENGTH_SECONDS } from "../config";
+
+// World clock shared by single player, the server and its clients. Time of day runs from 0 to 1:
+// 0 is sunrise, 0.25 noon, 0.5 sunset and 0.75 midnight.
+export const NIGHT_DAYLIGHT = 0.18;
+const SUN_TILT = 0.25;
+
+export function advanceTimeOfDay(timeOfDay: number, dt: number, dayLengthSeconds = DAY_LENGTH_SECONDS): number {
+  const next = timeOfDay + dt / Math.max(1, dayLengthSeconds);
+  return next - Math.floor(next);
+}
+
+// Unit vector towards the sun; the sun rises in the east (+x) and sets in the west. The moon sits opposite.
+export function getSunDirection(timeOfDay: number): { x: number; y: number; z: number } {
+  const angle = timeOfDay * Math.PI * 2;
+  const length = Math.hypot(1, SUN_TILT);
+  return { x: Math.cos(angle) / length, y: Math.sin(angle) / length, z: SUN_TILT / length };
+}
+
+// How much skylight reaches the world, from NIGHT_DAYLIGHT (moonlight) to 1 while the sun is well up.
+export function getDaylight(timeOfDay: number): number {
+  const sunHeight = Math.sin(timeOfDay * Math.PI * 2);
+  const t = Math.max(0, Math.min(1, (sunHeight + 0.15) / 0.4));
+  return NIGHT_DAYLIGHT + (1 - NIGHT_DAYLIGHT) * t * t * (3 - 2 * t);
+}
+
+export function formatTimeOfDay(timeOfDay: number): string {
+  const minutes = Math.floor((timeOfDay * 24 * 60 + 6 * 60) % (24 * 60));
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
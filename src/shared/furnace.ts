@@ -0,0 +1,107 @@
+import { FURNACE_SMELT_SECONDS } from "../config";
+import { createItemStack, getMaxStackSize } from "../tools";
+import { FurnaceState, SharedItemId } from "./protocol";
+
+export const FURNACE_INPUT_SLOT = 0;
+export const FURNACE_FUEL_SLOT = 1;
+export const FURNACE_OUTPUT_SLOT = 2;
+
+const SMELTING_RESULTS: Partial<Record<SharedItemId, SharedItemId>> = {
+  iron_ore: "iron_ingot",
+  gold_ore: "gold_ingot",
+  sand: "glass",
+  raw_meat: "cooked_meat",
+  wood: "coal",
+  birch_wood: "coal",
+  spruce_wood: "coal",
+  jungle_wood: "coal"
+};
+
+// Seconds one item keeps the furnace lit.
+const FUEL_SECONDS: Partial<Record<SharedItemId, number>> = {
+  coal: 80,
+  wood: 15,
+  birch_wood: 15,
+  spruce_wood: 15,
+  jungle_wood: 15,
+  plank: 15,
+  crafting_table: 15,
+  chest: 15,
+  stick: 5
+};
+
+export function getSmeltingResult(item: SharedItemId): SharedItemId | null {
+  return SMELTING_RESULTS[item] ?? null;
+}
+
+export function getFuelSeconds(item: SharedItemId): number {
+  return FUEL_SECONDS[item] ?? 0;
+}
+
+export function createFurnace(x: number, y: number, z: number): FurnaceState {
+  return { type: "furnace", x, y, z, slots: [null, null, null], burnTime: 0, burnDuration: 0, cookTime: 0 };
+}
+
+// Players can only take from the output slot.
+export function canPlaceInFurnace(index: number, item: SharedItemId): boolean {
+  if (index === FURNACE_INPUT_SLOT) {
+    return getSmeltingResult(item) !== null;
+  }
+  if (index === FURNACE_FUEL_SLOT) {
+    return getFuelSeconds(item) > 0;
+  }
+  return false;
+}
+
+export function isFurnaceLit(furnace: FurnaceState): boolean {
+  return furnace.burnTime > 0;
+}
+
+// Burns fuel and smelts one input item every FURNACE_SMELT_SECONDS while there is room in the output.
+// Fuel is only lit when there is something to smelt. Returns whether the furnace changed in a way worth
+// saving: an item moved, or it lit, went out, or started or stopped cooking. Steady progress alone doesn't count.
+export function tickFurnace(furnace: FurnaceState, dt: number): boolean {
+  const input = furnace.slots[FURNACE_INPUT_SLOT];
+  const fuel = furnace.slots[FURNACE_FUEL_SLOT];
+  const output = furnace.slots[FURNACE_OUTPUT_SLOT];
+  const result = input ? getSmeltingResult(input.item) : null;
+  const canSmelt =
+    result !== null && (!output || (output.item === result && output.count < getMaxStackSize(result)));
+  const wasLit = isFurnaceLit(furnace);
+  const wasCooking = furnace.cookTime > 0;
+  let slotsChanged = false;
+
+  if (furnace.burnTime <= 0 && canSmelt && fuel && getFuelSeconds(fuel.item) > 0) {
+    furnace.burnDuration = getFuelSeconds(fuel.item);
+    furnace.burnTime = furnace.burnDuration;
+    fuel.count -= 1;
+    if (fuel.count <= 0) {
+      furnace.slots[FURNACE_FUEL_SLOT] = null;
+    }
+    slotsChanged = true;
+  }
+
+  if (furnace.burnTime <= 0) {
+    // A half-smelted item cools back down without heat.
+    furnace.cookTime = Math.max(0, furnace.cookTime - dt * 2);
+  } else {
+    furnace.burnTime = Math.max(0, furnace.burnTime - dt);
+    if (!input || !result || !canSmelt) {
+      furnace.cookTime = 0;
+    } else {
+      furnace.cookTime += dt;
+      if (furnace.cookTime >= FURNACE_SMELT_SECONDS) {
+        furnace.cookTime = 0;
+        input.count -= 1;
+        if (input.count <= 0) {
+          furnace.slots[FURNACE_INPUT_SLOT] = null;
+        }
+        furnace.slots[FURNACE_OUTPUT_SLOT] = output
+          ? { ...output, count: output.count + 1 }
+          : createItemStack(result, 1);
+        slotsChanged = true;
+      }
+    }
+  }
+  return slotsChanged || isFurnaceLit(furnace) !== wasLit || (furnace.cookTime > 0) !== wasCooking;
+}
@@ -0,0 +1,98 @@
+import {
+  EAT_SECONDS,
+  EXHAUSTION_PER_HUNGER,
+  HUNGER_HEALTH_SECONDS,
+  HUNGER_REGEN_THRESHOLD,
+  JUMP_EXHAUSTION,
+  MAX_HUNGER,
+  PLAYER_MAX_HEALTH,
+  REGEN_EXHAUSTION,
+  SPRINT_EXHAUSTION_PER_SECOND,
+  SPRINT_JUMP_EXHAUSTION
+} from "../config";
+import { MovementActivity } from "./movement";
+import { SharedItemId } from "./protocol";
+
+// Hunger rules shared by single player and the authoritative server.
+export interface HungerState {
+  hunger: number;
+  exhaustion: number;
+  // Time toward the next point of regeneration or starvation damage.
+  healthTimer: number;
+  // Time the selected food has been held in use.
+  eatTime: number;
+}
+
+// Hunger points restored by each food.
+const FOOD_VALUES: Partial<Record<SharedItemId, number>> = {
+  apple: 4,
+  raw_meat: 2,
+  cooked_meat: 8
+};
+
+export function createHungerState(hunger = MAX_HUNGER): HungerState {
+  return { hunger: Math.max(0, Math.min(MAX_HUNGER, hunger)), exhaustion: 0, healthTimer: 0, eatTime: 0 };
+}
+
+export function getFoodValue(item: SharedItemId): number {
+  return FOOD_VALUES[item] ?? 0;
+}
+
+export function canEat(state: HungerState, item: SharedItemId): boolean {
+  return getFoodValue(item) > 0 && state.hunger < MAX_HUNGER;
+}
+
+export function addExhaustion(state: HungerState, amount: number): void {
+  state.exhaustion += amount;
+  while (state.exhaustion >= EXHAUSTION_PER_HUNGER) {
+    state.exhaustion -= EXHAUSTION_PER_HUNGER;
+    state.hunger = Math.max(0, state.hunger - 1);
+  }
+}
+
+// Drains hunger for the step's activity and returns the change in health: +1 while well fed and hurt,
+// -1 while starving, on every HUNGER_HEALTH_SECONDS.
+export function tickHunger(state: HungerState, dt: number, activity: MovementActivity, health: number): number {
+  if (activity.sprinting) {
+    addExhaustion(state, SPRINT_EXHAUSTION_PER_SECOND * dt);
+  }
+  if (activity.jumped) {
+    addExhaustion(state, activity.sprinting ? SPRINT_JUMP_EXHAUSTION : JUMP_EXHAUSTION);
+  }
+
+  const regenerating = state.hunger >= HUNGER_REGEN_THRESHOLD && health < PLAYER_MAX_HEALTH;
+  const starving = state.hunger === 0 && health > 0;
+  if (!regenerating && !starving) {
+    state.healthTimer = 0;
+    return 0;
+  }
+  state.healthTimer += dt;
+  if (state.healthTimer < HUNGER_HEALTH_SECONDS) {
+    return 0;
+  }
+  state.healthTimer = 0;
+  if (regenerating) {
+    addExhaustion(state, REGEN_EXHAUSTION);
+    return 1;
+  }
+  return -1;
+}
+
+// Holding use with food selected eats it after EAT_SECONDS. Returns true on the step the food is eaten;
+// the caller takes the item out of the inventory and then calls eatFood.
+export function updateEating(state: HungerState, item: SharedItemId | null, using: boolean, dt: number): boolean {
+  if (!using || !item || !canEat(state, item)) {
+    state.eatTime = 0;
+    return false;
+  }
+  state.eatTime += dt;
+  if (state.eatTime < EAT_SECONDS) {
+    return false;
+  }
+  state.eatTime = 0;
+  return true;
+}
+
+export function eatFood(state: HungerState, item: SharedItemId): void {
+  state.hunger = Math.min(MAX_HUNGER, state.hunger + getFoodValue(item));
+}
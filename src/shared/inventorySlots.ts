@@ -0,0 +1,188 @@
+import { ARMOR_SLOT_COUNT, HOTBAR_SIZE, MAIN_INVENTORY_SIZE, OFFHAND_SLOT_COUNT } from "../config";
+import { getArmorDefinition } from "../armor";
+import { getMaxStackSize } from "../tools";
+import { SharedItemId, SharedItemStack } from "./protocol";
+
+// Slot layout and move rules shared by the client inventory screen and the authoritative server.
+export type InventorySection = "hotbar" | "main" | "armor" | "offhand";
+
+// "container" addresses the slots of the block, such as a furnace or chest, the player currently has open, and
+// "crafting" the cells of the crafting grid while the inventory screen shows one.
+export type SlotSection = InventorySection | "container" | "crafting";
+
+export interface SlotRef {
+  section: SlotSection;
+  index: number;
+}
+
+export interface InventorySlots<T extends SharedItemStack> {
+  hotbar: (T | null)[];
+  main: (T | null)[];
+  armor: (T | null)[];
+  offhand: (T | null)[];
+  // Row-major 2x2 or 3x3 while a crafting grid is open, empty otherwise.
+  crafting: (T | null)[];
+}
+
+export interface SlotContainer<T extends SharedItemStack> {
+  slots: (T | null)[];
+  canPlace(index: number, item: SharedItemId): boolean;
+}
+
+export const INVENTORY_SECTIONS: InventorySection[] = ["hotbar", "main", "armor", "offhand"];
+
+// Where transferred stacks land, in fill order.
+const STORAGE_SECTIONS: InventorySection[] = ["hotbar", "main"];
+
+export const SECTION_SIZES: Record<InventorySection, number> = {
+  hotbar: HOTBAR_SIZE,
+  main: MAIN_INVENTORY_SIZE,
+  armor: ARMOR_SLOT_COUNT,
+  offhand: OFFHAND_SLOT_COUNT
+};
+
+export function createEmptySection<T extends SharedItemStack>(section: InventorySection): (T | null)[] {
+  return new Array<T | null>(SECTION_SIZES[section]).fill(null);
+}
+
+// Only the fixed-size sections; the container and crafting grid come and go with the screen.
+export function isValidSlot(ref: SlotRef): boolean {
+  if (ref.section === "container" || ref.section === "crafting") {
+    return false;
+  }
+  return isIndexInRange(ref.index, SECTION_SIZES[ref.section]);
+}
+
+export function canPlaceInSlot<T extends SharedItemStack>(
+  ref: SlotRef,
+  item: SharedItemId,
+  container: SlotContainer<T> | null = null
+): boolean {
+  if (ref.section === "armor") {
+    return getArmorDefinition(item)?.slot === ref.index;
+  }
+  if (ref.section === "container") {
+    return container !== null && container.canPlace(ref.index, item);
+  }
+  return true;
+}
+
+// Moves `count` items from one slot to another: into an empty slot, onto a matching stack, or swapping
+// whole stacks when the target holds something else. Returns false and changes nothing if the move is invalid.
+// Container slots are only reachable while `container` is given.
+export function moveStack<T extends SharedItemStack>(
+  slots: InventorySlots<T>,
+  from: SlotRef,
+  to: SlotRef,
+  count: number,
+  container: SlotContainer<T> | null = null
+): boolean {
+  const fromSlots = getSectionSlots(slots, from, container);
+  const toSlots = getSectionSlots(slots, to, container);
+  if (!fromSlots || !toSlots || (from.section === to.section && from.index === to.index)) {
+    return false;
+  }
+  const source = fromSlots[from.index];
+  if (!source || !Number.isInteger(count) || count < 1 || count > source.count) {
+    return false;
+  }
+  if (!canPlaceInSlot(to, source.item, container)) {
+    return false;
+  }
+
+  const target = toSlots[to.index];
+  if (!target) {
+    toSlots[to.index] = { ...source, count };
+  } else if (target.item === source.item && getMaxStackSize(source.item) > 1) {
+    const moved = Math.min(count, getMaxStackSize(source.item) - target.count);
+    if (moved <= 0) {
+      return false;
+    }
+    target.count += moved;
+    count = moved;
+  } else {
+    if (count !== source.count || !canPlaceInSlot(from, target.item, container)) {
+      return false;
+    }
+    toSlots[to.index] = source;
+    fromSlots[from.index] = target;
+    return true;
+  }
+
+  source.count -= count;
+  if (source.count === 0) {
+    fromSlots[from.index] = null;
+  }
+  return true;
+}
+
+// Empties every section and the crafting grid, e.g. when the player dies, and returns what was in them.
+export function takeAllStacks<T extends SharedItemStack>(slots: InventorySlots<T>): T[] {
+  const stacks: T[] = [];
+  for (const section of [...INVENTORY_SECTIONS, "crafting" as const]) {
+    const sectionSlots = slots[section];
+    for (let i = 0; i < sectionSlots.length; i += 1) {
+      const stack = sectionSlots[i];
+      if (stack) {
+        stacks.push(stack);
+        sectionSlots[i] = null;
+      }
+    }
+  }
+  return stacks;
+}
+
+// Swaps in an empty grid of `size` by `size` cells, or none for 0, and returns what the old grid held so the
+// caller can put it back in storage.
+export function resetCraftingGrid<T extends SharedItemStack>(slots: InventorySlots<T>, size: number): T[] {
+  const stacks = slots.crafting.filter((stack): stack is T => stack !== null);
+  slots.crafting = new Array<T | null>(size * size).fill(null);
+  return stacks;
+}
+
+// Shift-click: sends a whole stack across between the open container and the hotbar and main storage,
+// topping up matching stacks before filling empty slots. Returns whether anything moved.
+export function transferStack<T extends SharedItemStack>(
+  slots: InventorySlots<T>,
+  from: SlotRef,
+  container: SlotContainer<T> | null
+): boolean {
+  const source = getSectionSlots(slots, from, container)?.[from.index];
+  if (!container || !source) {
+    return false;
+  }
+  const targets: SlotRef[] =
+    from.section === "container"
+      ? STORAGE_SECTIONS.flatMap((section) => slots[section].map((_, index) => ({ section, index })))
+      : container.slots.map((_, index) => ({ section: "container", index }));
+
+  let moved = false;
+  for (const fillEmpty of [false, true]) {
+    for (const to of targets) {
+      if (source.count === 0) {
+        return moved;
+      }
+      const target = getSectionSlots(slots, to, container)?.[to.index] ?? null;
+      const fits = fillEmpty
+        ? target === null
+        : target !== null && target.item === source.item && target.count < getMaxStackSize(source.item);
+      if (fits && moveStack(slots, from, to, source.count, container)) {
+        moved = true;
+      }
+    }
+  }
+  return moved;
+}
+
+function getSectionSlots<T extends SharedItemStack>(
+  slots: InventorySlots<T>,
+  ref: SlotRef,
+  container: SlotContainer<T> | null
+): (T | null)[] | null {
+  const section = ref.section === "container" ? container?.slots : slots[ref.section];
+  return section && isIndexInRange(ref.index, section.length) ? section : null;
+}
+
+function isIndexInRange(index: number, size: number): boolean {
+  return Number.isInteger(index) && index >= 0 && index < size;
+}
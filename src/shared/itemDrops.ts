@@ -0,0 +1,78 @@
+import {
+  GRAVITY,
+  ITEM_MAGNET_ACCEL,
+  ITEM_MAGNET_RADIUS,
+  ITEM_PICKUP_RADIUS,
+  PLAYER_HEIGHT,
+  WATER_GRAVITY,
+  WATER_MAX_SINK_SPEED
+} from "../config";
+
+// Dropped item rules shared by single player and the authoritative server.
+interface Vec3Like {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Items are pulled toward a point half a block above the player's feet.
+const PICKUP_CENTER_Y = 0.5;
+const THROW_SPEED = 6;
+const THROW_LIFT = 2;
+
+export function applyItemGravity(velocity: Vec3Like, dt: number, onGround: boolean, inLiquid: boolean): void {
+  if (inLiquid) {
+    velocity.y = Math.max(velocity.y - WATER_GRAVITY * dt, -WATER_MAX_SINK_SPEED);
+  } else {
+    velocity.y -= GRAVITY * dt;
+  }
+  // Items slide to a stop on the ground but keep most of their momentum in the air.
+  const friction = Math.max(0, 1 - (onGround ? 10 : 0.5) * dt);
+  velocity.x *= friction;
+  velocity.z *= friction;
+}
+
+export function isInMagnetRange(item: Vec3Like, player: Vec3Like): boolean {
+  return distanceToPickupCenter(item, player) <= ITEM_MAGNET_RADIUS;
+}
+
+// Reaches a block down so items resting in a hole at the player's feet still get collected.
+export function isInPickupRange(item: Vec3Like, player: Vec3Like): boolean {
+  const horizontal = Math.hypot(player.x - item.x, player.z - item.z);
+  return horizontal <= ITEM_PICKUP_RADIUS && item.y >= player.y - 1 && item.y <= player.y + PLAYER_HEIGHT;
+}
+
+// Accelerates an item toward the player, harder the closer it gets.
+export function applyItemMagnet(velocity: Vec3Like, item: Vec3Like, player: Vec3Like, dt: number): void {
+  const dx = player.x - item.x;
+  const dy = player.y + PICKUP_CENTER_Y - item.y;
+  const dz = player.z - item.z;
+  const distance = Math.max(0.001, Math.hypot(dx, dy, dz));
+  const pull = ITEM_MAGNET_ACCEL * (1 - Math.min(1, distance / ITEM_MAGNET_RADIUS)) * dt;
+  velocity.x += (dx / distance) * pull;
+  velocity.y += (dy / distance) * pull;
+  velocity.z += (dz / distance) * pull;
+}
+
+// Launch velocity for an item thrown from the player's hand along the view direction.
+export function getThrowVelocity(yaw: number, pitch: number): Vec3Like {
+  const cosPitch = Math.cos(pitch);
+  return {
+    x: -Math.sin(yaw) * cosPitch * THROW_SPEED,
+    y: Math.sin(pitch) * THROW_SPEED + THROW_LIFT,
+    z: -Math.cos(yaw) * cosPitch * THROW_SPEED
+  };
+}
+
+// Small random hop for items popping out of a broken block or a defeated mob.
+export function getPopVelocity(random: () => number = Math.random): Vec3Like {
+  return {
+    x: (random() - 0.5) * 2,
+    y: 3 + random() * 2,
+    z: (random() - 0.5) * 2
+  };
+}
+
+function distanceToPickupCenter(item: Vec3Like, player: Vec3Like): number {
+  return Math.hypot(player.x - item.x, player.y + PICKUP_CENTER_Y - item.y, player.z - item.z);
+}
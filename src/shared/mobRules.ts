@@ -0,0 +1,106 @@
+import {
+  MOB_SPAWN_MAX_DISTANCE,
+  MOB_SPAWN_MAX_LIGHT,
+  MOB_SPAWN_MIN_DISTANCE,
+  MOB_SPAWN_VERTICAL_RANGE,
+  WORLD_HEIGHT
+} from "../config";
+import { BLOCK_SHIFT, MAX_LIGHT, SKY_SHIFT } from "../world/lighting";
+import { SharedItemId } from "./protocol";
+
+// Hostile spawning and sunlight rules shared by single player and the authoritative server.
+export interface MobRulesWorld {
+  isSolid(x: number, y: number, z: number): boolean;
+  isLiquid(x: number, y: number, z: number): boolean;
+  // Packed voxel light: skylight in the high nibble, block light in the low one.
+  getLight(x: number, y: number, z: number): number;
+}
+
+// Sunlight only burns once the day is well underway, not at dawn or dusk.
+const BURN_MIN_DAYLIGHT = 0.75;
+
+// Light a cell actually receives right now, with skylight dimmed by the time of day.
+export function getEffectiveLight(packedLight: number, daylight: number): number {
+  const sky = (packedLight >> SKY_SHIFT) & 0xf;
+  const block = (packedLight >> BLOCK_SHIFT) & 0xf;
+  return Math.max(Math.floor(sky * daylight), block);
+}
+
+// A random column in the ring around a player where hostiles may appear.
+export function pickSpawnColumn(center: { x: number; z: number }, random = Math.random): { x: number; z: number } {
+  const angle = random() * Math.PI * 2;
+  const radius = MOB_SPAWN_MIN_DISTANCE + random() * (MOB_SPAWN_MAX_DISTANCE - MOB_SPAWN_MIN_DISTANCE);
+  return {
+    x: Math.floor(center.x + Math.cos(angle) * radius),
+    z: Math.floor(center.z + Math.sin(angle) * radius)
+  };
+}
+
+export function isOutsideSpawnRadius(x: number, z: number, players: Iterable<{ x: number; z: number }>): boolean {
+  for (const player of players) {
+    const dx = x + 0.5 - player.x;
+    const dz = z + 0.5 - player.z;
+    if (dx * dx + dz * dz < MOB_SPAWN_MIN_DISTANCE * MOB_SPAWN_MIN_DISTANCE) {
+      return false;
+    }
+  }
+  return true;
+}
+
+export function canHostileSpawnAt(world: MobRulesWorld, x: number, y: number, z: number, daylight: number): boolean {
+  if (y < 1 || y + 1 >= WORLD_HEIGHT) {
+    return false;
+  }
+  if (!world.isSolid(x, y - 1, z)) {
+    return false;
+  }
+  for (const cellY of [y, y + 1]) {
+    if (world.isSolid(x, cellY, z) || world.isLiquid(x, cellY, z)) {
+      return false;
+    }
+  }
+  return getEffectiveLight(world.getLight(x, y, z), daylight) <= MOB_SPAWN_MAX_LIGHT;
+}
+
+// Highest spot in the column near `centerY` where a hostile may stand, so caves under a sunlit
+// surface still qualify during the day.
+export function findHostileSpawnY(
+  world: MobRulesWorld,
+  x: number,
+  z: number,
+  centerY: number,
+  daylight: number
+): number | null {
+  const top = Math.min(WORLD_HEIGHT - 2, Math.floor(centerY) + MOB_SPAWN_VERTICAL_RANGE);
+  const bottom = Math.max(1, Math.floor(centerY) - MOB_SPAWN_VERTICAL_RANGE);
+  for (let y = top; y >= bottom; y -= 1) {
+    if (canHostileSpawnAt(world, x, y, z, daylight)) {
+      return y;
+    }
+  }
+  return null;
+}
+
+// Hostiles drop meat, already cooked if they die while burning in sunlight.
+export function getMobMeatDrop(burning: boolean): SharedItemId {
+  return burning ? "cooked_meat" : "raw_meat";
+}
+
+// Whether a hostile standing at this position is under open sky in full daylight.
+export function isBurningInSunlight(
+  world: MobRulesWorld,
+  position: { x: number; y: number; z: number },
+  height: number,
+  daylight: number
+): boolean {
+  if (daylight < BURN_MIN_DAYLIGHT) {
+    return false;
+  }
+  const headY = Math.floor(position.y + height - 0.1);
+  const x = Math.floor(position.x);
+  const z = Math.floor(position.z);
+  if (world.isLiquid(x, headY, z)) {
+    return false;
+  }
+  return ((world.getLight(x, headY, z) >> SKY_SHIFT) & 0xf) === MAX_LIGHT;
+}
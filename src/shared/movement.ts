@@ -0,0 +1,62 @@
+import {
+  GRAVITY,
+  PLAYER_JUMP_SPEED,
+  PLAYER_SPRINT_SPEED,
+  PLAYER_WALK_SPEED,
+  WATER_DRAG,
+  WATER_EXIT_SPEED,
+  WATER_GRAVITY,
+  WATER_MAX_SINK_SPEED,
+  WATER_SPEED_MULTIPLIER,
+  WATER_SWIM_ACCEL,
+  WATER_SWIM_SPEED
+} from "../config";
+
+// Player movement rules shared by client prediction and the authoritative server simulation.
+export interface VerticalMoveState {
+  jump: boolean;
+  onGround: boolean;
+  inLiquid: boolean;
+  againstWall: boolean;
+}
+
+// What a movement step did that costs hunger.
+export interface MovementActivity {
+  sprinting: boolean;
+  jumped: boolean;
+}
+
+// Read before the step is applied, while `onGround` still says whether the jump can take off.
+export function getMovementActivity(sprint: boolean, moving: boolean, state: VerticalMoveState): MovementActivity {
+  return {
+    sprinting: sprint && moving && !state.inLiquid,
+    jumped: state.jump && state.onGround && !state.inLiquid
+  };
+}
+
+export function getMoveSpeed(sprint: boolean, inLiquid: boolean): number {
+  const speed = sprint ? PLAYER_SPRINT_SPEED : PLAYER_WALK_SPEED;
+  return inLiquid ? speed * WATER_SPEED_MULTIPLIER : speed;
+}
+
+export function applyVerticalMovement(velocity: { y: number }, dt: number, state: VerticalMoveState): void {
+  if (!state.inLiquid) {
+    velocity.y -= GRAVITY * dt;
+    if (state.jump && state.onGround) {
+      velocity.y = PLAYER_JUMP_SPEED;
+    }
+    return;
+  }
+
+  velocity.y -= WATER_GRAVITY * dt;
+  velocity.y *= Math.max(0, 1 - WATER_DRAG * dt);
+  if (state.jump) {
+    if (state.againstWall) {
+      // Swimming into a bank gives enough lift to climb out onto the shore.
+      velocity.y = Math.max(velocity.y, WATER_EXIT_SPEED);
+    } else {
+      velocity.y = Math.min(WATER_SWIM_SPEED, velocity.y + WATER_SWIM_ACCEL * dt);
+    }
+  }
+  velocity.y = Math.max(velocity.y, -WATER_MAX_SINK_SPEED);
+}
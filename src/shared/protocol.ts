@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { CHEST_SLOT_COUNT } from "../config";
 
 export type SharedItemId =
   | "grass_block"
@@ -7,13 +8,71 @@ export type SharedItemId =
   | "wood"
   | "leaves"
   | "sand"
+  | "torch"
+  | "glowstone"
+  | "snow"
+  | "iron_ore"
+  | "gold_ore"
+  | "birch_wood"
+  | "birch_leaves"
+  | "spruce_wood"
+  | "spruce_leaves"
+  | "jungle_wood"
+  | "jungle_leaves"
+  | "cactus"
+  | "crafting_table"
+  | "furnace"
+  | "glass"
+  | "chest"
+  | "bed"
   | "plank"
   | "stick"
-  | "pickaxe";
+  | "wooden_pickaxe"
+  | "wooden_axe"
+  | "wooden_shovel"
+  | "wooden_sword"
+  | "stone_pickaxe"
+  | "stone_axe"
+  | "stone_shovel"
+  | "stone_sword"
+  | "iron_pickaxe"
+  | "iron_axe"
+  | "iron_shovel"
+  | "iron_sword"
+  | "diamond_pickaxe"
+  | "diamond_axe"
+  | "diamond_shovel"
+  | "diamond_sword"
+  | "iron_helmet"
+  | "iron_chestplate"
+  | "iron_leggings"
+  | "iron_boots"
+  | "diamond_helmet"
+  | "diamond_chestplate"
+  | "diamond_leggings"
+  | "diamond_boots"
+  | "coal"
+  | "diamond"
+  | "seeds"
+  | "red_dye"
+  | "yellow_dye"
+  | "iron_ingot"
+  | "gold_ingot"
+  | "raw_meat"
+  | "cooked_meat"
+  | "apple";
+
+export type DamageCause = "mob" | "fall" | "drowning" | "suffocation" | "starvation" | "void";
+
+export interface DamageEvent {
+  cause: DamageCause;
+  amount: number;
+}
 
 export interface SharedItemStack {
   item: SharedItemId;
   count: number;
+  durability?: number;
 }
 
 export interface NetPlayerState {
@@ -28,6 +87,9 @@ export interface NetPlayerState {
   yaw: number;
   pitch: number;
   health: number;
+  hunger: number;
+  // Seconds of breath left, shown while under water.
+  air: number;
   selectedSlot: number;
   hotbar: (SharedItemStack | null)[];
   lastProcessedSeq?: number;
@@ -41,11 +103,46 @@ export interface NetMobState {
   health: number;
 }
 
+export interface NetItemState {
+  id: number;
+  x: number;
+  y: number;
+  z: number;
+  stack: SharedItemStack;
+}
+
+// Block entities are per-position state such as a furnace's slots, saved with their chunk.
+export interface FurnaceState {
+  type: "furnace";
+  x: number;
+  y: number;
+  z: number;
+  // Input, fuel and output, in that order.
+  slots: (SharedItemStack | null)[];
+  // Seconds left on the fuel item that is burning, and how long that item burns in total.
+  burnTime: number;
+  burnDuration: number;
+  // Seconds spent smelting the current input item.
+  cookTime: number;
+}
+
+export interface ChestState {
+  type: "chest";
+  x: number;
+  y: number;
+  z: number;
+  slots: (SharedItemStack | null)[];
+}
+
+export type BlockEntityState = FurnaceState | ChestState;
+
 export interface BlockDelta {
   x: number;
   y: number;
   z: number;
   block: number;
+  // Block metadata such as the water level, 0 for plain blocks.
+  meta: number;
 }
 
 const Vec3Schema = z.object({
@@ -54,11 +151,97 @@ const Vec3Schema = z.object({
   z: z.number()
 });
 
+export const ItemIdSchema = z.enum([
+  "grass_block",
+  "dirt",
+  "stone",
+  "wood",
+  "leaves",
+  "sand",
+  "torch",
+  "glowstone",
+  "snow",
+  "iron_ore",
+  "gold_ore",
+  "birch_wood",
+  "birch_leaves",
+  "spruce_wood",
+  "spruce_leaves",
+  "jungle_wood",
+  "jungle_leaves",
+  "cactus",
+  "crafting_table",
+  "furnace",
+  "glass",
+  "chest",
+  "bed",
+  "plank",
+  "stick",
+  "wooden_pickaxe",
+  "wooden_axe",
+  "wooden_shovel",
+  "wooden_sword",
+  "stone_pickaxe",
+  "stone_axe",
+  "stone_shovel",
+  "stone_sword",
+  "iron_pickaxe",
+  "iron_axe",
+  "iron_shovel",
+  "iron_sword",
+  "diamond_pickaxe",
+  "diamond_axe",
+  "diamond_shovel",
+  "diamond_sword",
+  "iron_helmet",
+  "iron_chestplate",
+  "iron_leggings",
+  "iron_boots",
+  "diamond_helmet",
+  "diamond_chestplate",
+  "diamond_leggings",
+  "diamond_boots",
+  "coal",
+  "diamond",
+  "seeds",
+  "red_dye",
+  "yellow_dye",
+  "iron_ingot",
+  "gold_ingot",
+  "raw_meat",
+  "cooked_meat",
+  "apple"
+]);
+
 const ItemStackSchema = z.object({
-  item: z.enum(["grass_block", "dirt", "stone", "wood", "leaves", "sand", "plank", "stick", "pickaxe"]),
-  count: z.number().int().nonnegative()
+  item: ItemIdSchema,
+  count: z.number().int().nonnegative(),
+  durability: z.number().int().nonnegative().optional()
 });
 
+const SlotRefSchema = z.object({
+  section: z.enum(["hotbar", "main", "armor", "offhand", "container", "crafting"]),
+  index: z.number().int().nonnegative()
+});
+
+const DamageCauseSchema = z.enum(["mob", "fall", "drowning", "suffocation", "starvation", "void"]);
+
+const GameEventSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("damage"),
+    cause: DamageCauseSchema,
+    amount: z.number()
+  }),
+  z.object({
+    kind: z.literal("death"),
+    cause: DamageCauseSchema
+  }),
+  z.object({
+    // The player used a bed, which is now where they respawn.
+    kind: z.literal("spawn_set")
+  })
+]);
+
 const PlayerStateSchema = z.object({
   id: z.string(),
   nickname: z.string(),
@@ -71,6 +254,8 @@ const PlayerStateSchema = z.object({
   yaw: z.number(),
   pitch: z.number(),
   health: z.number(),
+  hunger: z.number(),
+  air: z.number(),
   selectedSlot: z.number().int(),
   hotbar: z.array(ItemStackSchema.nullable()),
   lastProcessedSeq: z.number().int().optional()
@@ -84,11 +269,41 @@ const MobStateSchema = z.object({
   health: z.number()
 });
 
+const ItemEntitySchema = z.object({
+  id: z.number().int(),
+  x: z.number(),
+  y: z.number(),
+  z: z.number(),
+  stack: ItemStackSchema
+});
+
+const FurnaceStateSchema = z.object({
+  type: z.literal("furnace"),
+  x: z.number().int(),
+  y: z.number().int(),
+  z: z.number().int(),
+  slots: z.array(ItemStackSchema.nullable()).length(3),
+  burnTime: z.number().nonnegative(),
+  burnDuration: z.number().nonnegative(),
+  cookTime: z.number().nonnegative()
+});
+
+const ChestStateSchema = z.object({
+  type: z.literal("chest"),
+  x: z.number().int(),
+  y: z.number().int(),
+  z: z.number().int(),
+  slots: z.array(ItemStackSchema.nullable()).length(CHEST_SLOT_COUNT)
+});
+
+export const BlockEntitySchema = z.discriminatedUnion("type", [FurnaceStateSchema, ChestStateSchema]);
+
 const BlockDeltaSchema = z.object({
   x: z.number().int(),
   y: z.number().int(),
   z: z.number().int(),
-  block: z.number().int()
+  block: z.number().int(),
+  meta: z.number().int().min(0).max(255)
 });
 
 export const ClientMessageSchema = z.discriminatedUnion("type", [
@@ -106,6 +321,8 @@ export const ClientMessageSchema = z.discriminatedUnion("type", [
     moveZ: z.number().min(-1).max(1),
     jump: z.boolean(),
     sprint: z.boolean(),
+    // Right mouse held, e.g. to eat the selected food.
+    use: z.boolean(),
     yaw: z.number(),
     pitch: z.number()
   }),
@@ -120,13 +337,51 @@ export const ClientMessageSchema = z.discriminatedUnion("type", [
     selectedSlot: z.number().int()
   }),
   z.object({
-    type: z.literal("action_craft"),
-    recipeId: z.string()
+    // Crafts once from whatever lies on the player's open crafting grid.
+    type: z.literal("action_craft")
   }),
   z.object({
     type: z.literal("action_attack"),
     targetEntityId: z.number().int()
   }),
+  z.object({
+    type: z.literal("action_drop"),
+    selectedSlot: z.number().int(),
+    count: z.number().int().positive()
+  }),
+  z.object({
+    type: z.literal("inventory_move"),
+    from: SlotRefSchema,
+    to: SlotRefSchema,
+    count: z.number().int().positive()
+  }),
+  z.object({
+    type: z.literal("container_open"),
+    target: Vec3Schema
+  }),
+  z.object({
+    // Shift-click: sends the whole stack across between the open container and the player's storage.
+    type: z.literal("container_transfer"),
+    from: SlotRefSchema
+  }),
+  z.object({
+    // Opens a 2x2 grid from the inventory key, or a 3x3 grid at the given crafting table.
+    type: z.literal("crafting_open"),
+    table: Vec3Schema.optional()
+  }),
+  z.object({
+    // The inventory screen closed; anything left on the crafting grid goes back to the player's storage.
+    type: z.literal("container_close")
+  }),
+  z.object({
+    // Sent from the death screen; the server keeps a dead player down until then.
+    type: z.literal("respawn")
+  }),
+  z.object({
+    // Right click on a bed.
+    type: z.literal("set_spawn"),
+    target: Vec3Schema
+  }),
   z.object({
     type: z.literal("hotbar_select"),
     slot: z.number().int()
@@ -146,30 +401,46 @@ export const ServerMessageSchema = z.discriminatedUnion("type", [
     serverTick: z.number().int().nonnegative(),
     seed: z.number().int(),
     roomCode: z.string(),
-    maxPlayers: z.number().int().positive()
+    maxPlayers: z.number().int().positive(),
+    timeOfDay: z.number().min(0).max(1),
+    dayLengthSeconds: z.number().positive()
   }),
   z.object({
     type: z.literal("snapshot"),
     tick: z.number().int().nonnegative(),
+    timeOfDay: z.number().min(0).max(1),
     players: z.array(PlayerStateSchema),
     mobs: z.array(MobStateSchema),
+    items: z.array(ItemEntitySchema),
     changedBlocks: z.array(BlockDeltaSchema)
   }),
   z.object({
     type: z.literal("chunk_data"),
     cx: z.number().int(),
     cz: z.number().int(),
-    blocksBase64: z.string()
+    blocksBase64: z.string(),
+    metaBase64: z.string()
   }),
   z.object({
     type: z.literal("inventory_update"),
     hotbar: z.array(ItemStackSchema.nullable()),
+    main: z.array(ItemStackSchema.nullable()),
+    armor: z.array(ItemStackSchema.nullable()),
+    offhand: z.array(ItemStackSchema.nullable()),
+    crafting: z.array(ItemStackSchema.nullable()).max(9),
     selectedSlot: z.number().int()
   }),
+  z.object({
+    type: z.literal("container_update"),
+    entity: BlockEntitySchema
+  }),
+  z.object({
+    // The opened block or crafting table was broken or the player walked out of reach.
+    type: z.literal("container_closed")
+  }),
   z.object({
     type: z.literal("event"),
-    kind: z.string(),
-    payload: z.unknown()
+    event: GameEventSchema
   }),
   z.object({
     type: z.literal("error"),
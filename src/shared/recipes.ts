@@ -0,0 +1,138 @@
+import { z } from "zod";
+import { MAX_STACK } from "../config";
+import { getMaxStackSize } from "../tools";
+import { findGridRecipe, getGridPattern, GridCell, TABLE_GRID_SIZE } from "./craftingGrid";
+import { InventorySlots } from "./inventorySlots";
+import { ItemIdSchema, SharedItemId, SharedItemStack } from "./protocol";
+import recipeData from "./recipes.json";
+
+// The one recipe registry, read from recipes.json by both the client and the server.
+const ShapedShapeSchema = z.object({
+  type: z.literal("shaped"),
+  pattern: z.array(z.string().min(1).max(TABLE_GRID_SIZE)).min(1).max(TABLE_GRID_SIZE),
+  key: z.record(z.string().length(1), ItemIdSchema)
+});
+
+const ShapelessShapeSchema = z.object({
+  type: z.literal("shapeless"),
+  ingredients: z.array(ItemIdSchema).min(1).max(TABLE_GRID_SIZE * TABLE_GRID_SIZE)
+});
+
+const RecipeSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    shape: z.discriminatedUnion("type", [ShapedShapeSchema, ShapelessShapeSchema]),
+    output: z.object({
+      item: ItemIdSchema,
+      count: z.number().int().positive().max(MAX_STACK)
+    })
+  })
+  .refine(
+    ({ shape }) =>
+      shape.type === "shapeless" ||
+      shape.pattern.every((row) => [...row].every((symbol) => symbol === " " || symbol in shape.key)),
+    { message: "Pattern uses a symbol missing from its key" }
+  )
+  .refine((recipe) => recipe.output.count <= getMaxStackSize(recipe.output.item), {
+    message: "Output count exceeds the item's stack size"
+  });
+
+const RecipeListSchema = z
+  .array(RecipeSchema)
+  .refine((recipes) => new Set(recipes.map((recipe) => recipe.id)).size === recipes.length, {
+    message: "Duplicate recipe id"
+  });
+
+export type Recipe = z.infer<typeof RecipeSchema>;
+
+// Anything the recipe book can count items in; both the client and server inventories fit.
+export type RecipeInventory = Pick<InventorySlots<SharedItemStack>, "hotbar" | "main" | "crafting">;
+
+// Bad data fails loudly at startup rather than leaving a recipe silently uncraftable.
+export const RECIPES: readonly Recipe[] = RecipeListSchema.parse(recipeData);
+
+const RECIPES_BY_ID = new Map(RECIPES.map((recipe) => [recipe.id, recipe]));
+
+export function getRecipe(id: string): Recipe | null {
+  return RECIPES_BY_ID.get(id) ?? null;
+}
+
+export function findRecipe(grid: GridCell[]): Recipe | null {
+  return findGridRecipe(RECIPES, grid);
+}
+
+// Items already laid out on the crafting grid still count as the player's.
+export function countInventoryItem(inventory: RecipeInventory, item: SharedItemId): number {
+  let total = 0;
+  for (const stack of [...inventory.hotbar, ...inventory.main, ...inventory.crafting]) {
+    if (stack && stack.item === item) {
+      total += stack.count;
+    }
+  }
+  return total;
+}
+
+// Crafts once from the stacks on the grid, using up one item from every filled slot. Returns the recipe that
+// was made, or null, leaving the grid untouched, when it matches nothing.
+export function craftFromSlots<T extends SharedItemStack>(grid: (T | null)[]): Recipe | null {
+  const recipe = findRecipe(getGridPattern(grid));
+  if (!recipe) {
+    return null;
+  }
+  for (let i = 0; i < grid.length; i += 1) {
+    const stack = grid[i];
+    if (!stack) {
+      continue;
+    }
+    stack.count -= 1;
+    if (stack.count === 0) {
+      grid[i] = null;
+    }
+  }
+  return recipe;
+}
+
+export function getRecipeIngredients(recipe: Recipe): Map<SharedItemId, number> {
+  const counts = new Map<SharedItemId, number>();
+  const { shape } = recipe;
+  const items =
+    shape.type === "shapeless"
+      ? shape.ingredients
+      : shape.pattern.flatMap((row) => [...row].filter((symbol) => symbol !== " ").map((symbol) => shape.key[symbol]));
+  for (const item of items) {
+    counts.set(item, (counts.get(item) ?? 0) + 1);
+  }
+  return counts;
+}
+
+export function fitsGrid(recipe: Recipe, gridSize: number): boolean {
+  const { shape } = recipe;
+  if (shape.type === "shapeless") {
+    return shape.ingredients.length <= gridSize * gridSize;
+  }
+  return shape.pattern.length <= gridSize && shape.pattern.every((row) => row.length <= gridSize);
+}
+
+// Recipes the inventory holds every ingredient for and that can be laid out in a grid of the given size.
+export function getCraftableRecipes(inventory: RecipeInventory, gridSize = TABLE_GRID_SIZE): Recipe[] {
+  return RECIPES.filter((recipe) => {
+    if (!fitsGrid(recipe, gridSize)) {
+      return false;
+    }
+    for (const [item, count] of getRecipeIngredients(recipe)) {
+      if (countInventoryItem(inventory, item) < count) {
+        return false;
+      }
+    }
+    return true;
+  });
+}
+
+export function getRecipesUsing(item: SharedItemId): Recipe[] {
+  return RECIPES.filter((recipe) => getRecipeIngredients(recipe).has(item));
+}
+
+export function getRecipesFor(item: SharedItemId): Recipe[] {
+  return RECIPES.filter((recipe) => recipe.output.item === item);
+}
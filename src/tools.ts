@@ -0,0 +1,117 @@
+import { getArmorDefinition } from "./armor";
+import { BLOCK_DEFS } from "./blocks";
+import { MAX_STACK } from "./config";
+import { BlockId, ItemId, ItemStack, ToolItemId, ToolMaterial, ToolType } from "./types";
+
+export interface ToolDefinition {
+  id: ToolItemId;
+  type: ToolType;
+  material: ToolMaterial;
+  tier: number;
+  // Mining speed multiplier on blocks that prefer this tool type.
+  speed: number;
+  damage: number;
+  maxDurability: number;
+}
+
+export const TOOL_TYPES: ToolType[] = ["pickaxe", "axe", "shovel", "sword"];
+export const TOOL_MATERIALS: ToolMaterial[] = ["wooden", "stone", "iron", "diamond"];
+
+interface MaterialStats {
+  tier: number;
+  speed: number;
+  damageBonus: number;
+  durability: number;
+}
+
+const MATERIAL_STATS: Record<ToolMaterial, MaterialStats> = {
+  wooden: { tier: 1, speed: 2, damageBonus: 0, durability: 60 },
+  stone: { tier: 2, speed: 4, damageBonus: 1, durability: 132 },
+  iron: { tier: 3, speed: 6, damageBonus: 2, durability: 251 },
+  diamond: { tier: 4, speed: 8, damageBonus: 3, durability: 1562 }
+};
+
+const BASE_DAMAGE: Record<ToolType, number> = {
+  pickaxe: 3,
+  axe: 4,
+  shovel: 2,
+  sword: 5
+};
+
+export const HAND_DAMAGE = 2;
+
+// Blocks that need a better tool take this much longer to break, and then drop nothing.
+const UNHARVESTABLE_PENALTY = 3.3;
+
+const TOOL_DEFS = new Map<ItemId, ToolDefinition>();
+for (const material of TOOL_MATERIALS) {
+  for (const type of TOOL_TYPES) {
+    const stats = MATERIAL_STATS[material];
+    const id: ToolItemId = `${material}_${type}`;
+    TOOL_DEFS.set(id, {
+      id,
+      type,
+      material,
+      tier: stats.tier,
+      speed: stats.speed,
+      damage: BASE_DAMAGE[type] + stats.damageBonus,
+      maxDurability: stats.durability
+    });
+  }
+}
+
+// Item ids renamed since older saves were written.
+const LEGACY_ITEM_IDS: Record<string, ItemId> = {
+  pickaxe: "wooden_pickaxe"
+};
+
+export function getToolDefinition(item: ItemId | null | undefined): ToolDefinition | null {
+  return item ? TOOL_DEFS.get(item) ?? null : null;
+}
+
+// Tools never stack, so each one keeps its own durability; neither does armor.
+export function getMaxStackSize(item: ItemId): number {
+  return TOOL_DEFS.has(item) || getArmorDefinition(item) ? 1 : MAX_STACK;
+}
+
+// A fresh stack as it comes out of crafting or a drop, with full durability for tools.
+export function createItemStack(item: ItemId, count: number): ItemStack {
+  const tool = TOOL_DEFS.get(item);
+  return tool ? { item, count, durability: tool.maxDurability } : { item, count };
+}
+
+// Wears a tool stack down by one use per point of damage; returns false once the tool breaks.
+export function wearTool(stack: ItemStack, amount: number): boolean {
+  const tool = TOOL_DEFS.get(stack.item);
+  if (!tool) {
+    return true;
+  }
+  stack.durability = Math.max(0, (stack.durability ?? tool.maxDurability) - amount);
+  return stack.durability > 0;
+}
+
+export function upgradeLegacyItemId(item: string): ItemId {
+  return LEGACY_ITEM_IDS[item] ?? (item as ItemId);
+}
+
+export function canHarvest(block: BlockId, item: ItemId | null | undefined): boolean {
+  const def = BLOCK_DEFS[block];
+  const required = def.harvestTier ?? 0;
+  if (required === 0) {
+    return true;
+  }
+  const tool = getToolDefinition(item);
+  return tool !== null && tool.type === def.tool && tool.tier >= required;
+}
+
+export function getMiningSeconds(block: BlockId, item: ItemId | null | undefined): number {
+  const def = BLOCK_DEFS[block];
+  const tool = getToolDefinition(item);
+  const speed = tool && tool.type === def.tool ? tool.speed : 1;
+  const seconds = Math.max(0.2, def.hardness) / speed;
+  return canHarvest(block, item) ? seconds : seconds * UNHARVESTABLE_PENALTY;
+}
+
+export function getAttackDamage(item: ItemId | null | undefined): number {
+  return getToolDefinition(item)?.damage ?? HAND_DAMAGE;
+}
@@ -6,7 +6,29 @@ export enum BlockId {
   Wood = 4,
   Leaves = 5,
   Sand = 6,
-  Water = 7
+  Water = 7,
+  Torch = 8,
+  Glowstone = 9,
+  Snow = 10,
+  CoalOre = 11,
+  IronOre = 12,
+  GoldOre = 13,
+  DiamondOre = 14,
+  BirchWood = 15,
+  BirchLeaves = 16,
+  SpruceWood = 17,
+  SpruceLeaves = 18,
+  JungleWood = 19,
+  JungleLeaves = 20,
+  Cactus = 21,
+  TallGrass = 22,
+  Poppy = 23,
+  Dandelion = 24,
+  CraftingTable = 25,
+  Furnace = 26,
+  Glass = 27,
+  Chest = 28,
+  Bed = 29
 }
 
 export type PlaceableItemId =
@@ -15,13 +37,59 @@ export type PlaceableItemId =
   | "stone"
   | "wood"
   | "leaves"
-  | "sand";
+  | "sand"
+  | "torch"
+  | "glowstone"
+  | "snow"
+  | "iron_ore"
+  | "gold_ore"
+  | "birch_wood"
+  | "birch_leaves"
+  | "spruce_wood"
+  | "spruce_leaves"
+  | "jungle_wood"
+  | "jungle_leaves"
+  | "cactus"
+  | "crafting_table"
+  | "furnace"
+  | "glass"
+  | "chest"
+  | "bed";
 
-export type ItemId = PlaceableItemId | "plank" | "stick" | "pickaxe";
+export type ToolType = "pickaxe" | "axe" | "shovel" | "sword";
+
+export type ToolMaterial = "wooden" | "stone" | "iron" | "diamond";
+
+export type ToolItemId = `${ToolMaterial}_${ToolType}`;
+
+export type ArmorPiece = "helmet" | "chestplate" | "leggings" | "boots";
+
+export type ArmorMaterial = "iron" | "diamond";
+
+export type ArmorItemId = `${ArmorMaterial}_${ArmorPiece}`;
+
+export type ItemId =
+  | PlaceableItemId
+  | ToolItemId
+  | ArmorItemId
+  | "plank"
+  | "stick"
+  | "coal"
+  | "diamond"
+  | "seeds"
+  | "red_dye"
+  | "yellow_dye"
+  | "iron_ingot"
+  | "gold_ingot"
+  | "raw_meat"
+  | "cooked_meat"
+  | "apple";
 
 export interface ItemStack {
   item: ItemId;
   count: number;
+  // Uses left before a tool breaks; only tools carry it.
+  durability?: number;
 }
 
 export interface BlockDefinition {
@@ -31,6 +99,18 @@ export interface BlockDefinition {
   hardness: number;
   color: number;
   drop?: ItemId;
+  // Solid blocks that still let light through, such as leaves.
+  transparent?: boolean;
+  // Light level (0-15) the block gives off, spreading through the block light channel.
+  lightEmission?: number;
+  // Defaults to a full cube.
+  shape?: "torch" | "cross";
+  // Tool that mines the block faster.
+  tool?: ToolType;
+  // Minimum tool tier (1 wooden to 4 diamond) of the matching tool needed for the block to drop anything.
+  harvestTier?: number;
+  // Rolled on top of the normal drop whatever the tool, e.g. apples from leaves.
+  bonusDrop?: { item: ItemId; chance: number };
 }
 
 export interface ChunkCoord {
@@ -48,11 +128,33 @@ export interface PlayerSaveState {
   yaw: number;
   pitch: number;
   health: number;
+  // Missing from saves written before hunger existed.
+  hunger?: number;
+  // Missing from saves written before respawn points existed.
+  spawn?: { x: number; y: number; z: number };
+  // Bed the player last used, if any; they respawn on it while it stands.
+  bed?: { x: number; y: number; z: number };
   selectedSlot: number;
   hotbar: (ItemStack | null)[];
+  // Missing from saves written before the full inventory existed.
+  main?: (ItemStack | null)[];
+  armor?: (ItemStack | null)[];
+  offhand?: (ItemStack | null)[];
+  // Stacks on the crafting grid when the save was made; they go back into storage on loading.
+  crafting?: (ItemStack | null)[];
 }
 
 export interface WorldMeta {
   seed: number;
   version: number;
+  timeOfDay?: number;
+  // Items lying on the ground; missing from saves written before they were kept.
+  items?: SavedDroppedItem[];
+}
+
+export interface SavedDroppedItem {
+  stack: ItemStack;
+  x: number;
+  y: number;
+  z: number;
 }
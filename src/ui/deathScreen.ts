@@ -0,0 +1,54 @@
+import { DamageCause } from "../shared/protocol";
+
+const DEATH_MESSAGES: Record<DamageCause, string> = {
+  mob: "Killed by a hostile mob",
+  fall: "Fell from a high place",
+  drowning: "Drowned",
+  suffocation: "Suffocated in a wall",
+  starvation: "Starved to death",
+  void: "Fell out of the world"
+};
+
+// Covers the game while the player is dead; the world keeps running behind it until they respawn.
+export class DeathScreen {
+  private readonly root: HTMLDivElement;
+  private readonly cause: HTMLDivElement;
+  private visible = false;
+
+  constructor(parent: HTMLElement, onRespawn: () => void) {
+    this.root = document.createElement("div");
+    this.root.className = "death-screen hidden";
+
+    const title = document.createElement("div");
+    title.className = "death-title";
+    title.textContent = "You died";
+    this.root.appendChild(title);
+
+    this.cause = document.createElement("div");
+    this.cause.className = "death-cause";
+    this.root.appendChild(this.cause);
+
+    const respawn = document.createElement("button");
+    respawn.type = "button";
+    respawn.textContent = "Respawn";
+    respawn.addEventListener("click", () => onRespawn());
+    this.root.appendChild(respawn);
+
+    parent.appendChild(this.root);
+  }
+
+  isVisible(): boolean {
+    return this.visible;
+  }
+
+  show(cause: DamageCause | null): void {
+    this.visible = true;
+    this.cause.textContent = cause ? DEATH_MESSAGES[cause] : "";
+    this.root.classList.remove("hidden");
+  }
+
+  hide(): void {
+    this.visible = false;
+    this.root.classList.add("hidden");
+  }
+}
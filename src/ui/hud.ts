@@ -1,17 +1,26 @@
-import { Recipe } from "../game/crafting";
+import { getToolDefinition } from "../tools";
 import { Inventory } from "../game/inventory";
+import { EAT_SECONDS, PLAYER_MAX_AIR } from "../config";
+import { HungerState } from "../shared/hunger";
+import { ItemStack } from "../types";
 
 export class Hud {
   private readonly root: HTMLDivElement;
   private readonly health: HTMLDivElement;
+  private readonly hunger: HTMLDivElement;
+  private readonly air: HTMLDivElement;
   private readonly debug: HTMLDivElement;
   private readonly hotbarSlots: HTMLDivElement[] = [];
-  private readonly crafting: HTMLDivElement;
+  private readonly underwaterTint: HTMLDivElement;
 
   constructor(parent: HTMLElement) {
     this.root = document.createElement("div");
     this.root.className = "hud-root";
 
+    this.underwaterTint = document.createElement("div");
+    this.underwaterTint.className = "underwater-tint hidden";
+    this.root.appendChild(this.underwaterTint);
+
     const crosshair = document.createElement("div");
     crosshair.className = "crosshair";
     crosshair.textContent = "+";
@@ -21,6 +30,15 @@ export class Hud {
     this.health.className = "health";
     this.root.appendChild(this.health);
 
+    this.hunger = document.createElement("div");
+    this.hunger.className = "hunger";
+    this.root.appendChild(this.hunger);
+
+    // Only shown while holding breath.
+    this.air = document.createElement("div");
+    this.air.className = "air hidden";
+    this.root.appendChild(this.air);
+
     this.debug = document.createElement("div");
     this.debug.className = "debug";
     this.root.appendChild(this.debug);
@@ -35,10 +53,6 @@ export class Hud {
     }
     this.root.appendChild(hotbar);
 
-    this.crafting = document.createElement("div");
-    this.crafting.className = "crafting hidden";
-    this.root.appendChild(this.crafting);
-
     parent.appendChild(this.root);
   }
 
@@ -46,6 +60,16 @@ export class Hud {
     this.health.textContent = `Health: ${Math.max(0, Math.floor(value))}`;
   }
 
+  updateHunger(state: HungerState): void {
+    const eating = state.eatTime > 0 ? ` (eating ${Math.round((state.eatTime / EAT_SECONDS) * 100)}%)` : "";
+    this.hunger.textContent = `Hunger: ${Math.floor(state.hunger)}${eating}`;
+  }
+
+  updateAir(seconds: number): void {
+    this.air.classList.toggle("hidden", seconds >= PLAYER_MAX_AIR);
+    this.air.textContent = `Air: ${Math.ceil(seconds)}`;
+  }
+
   updateDebug(lines: string[]): void {
     this.debug.innerHTML = lines.map((line) => `<div>${line}</div>`).join("");
   }
@@ -53,32 +77,29 @@ export class Hud {
   updateHotbar(inventory: Inventory): void {
     for (let i = 0; i < this.hotbarSlots.length; i += 1) {
       const slot = this.hotbarSlots[i];
-      const stack = inventory.hotbar[i];
       slot.classList.toggle("selected", i === inventory.selectedSlot);
-      if (stack) {
-        slot.textContent = `${stack.item} x${stack.count}`;
-      } else {
-        slot.textContent = "";
-      }
+      renderItemSlot(slot, inventory.hotbar[i]);
     }
   }
 
-  setCraftingVisible(visible: boolean): void {
-    this.crafting.classList.toggle("hidden", !visible);
+  setUnderwater(underwater: boolean): void {
+    this.underwaterTint.classList.toggle("hidden", !underwater);
   }
+}
 
-  updateCrafting(recipes: Recipe[], inventory: Inventory): void {
-    const rows: string[] = [];
-    rows.push("<div><b>Crafting (press 1-3)</b></div>");
-    for (let i = 0; i < recipes.length; i += 1) {
-      const recipe = recipes[i];
-      const hasAll = recipe.inputs.every((input) => inventory.count(input.item) >= input.count);
-      const status = hasAll ? "ready" : "missing";
-      const inputs = recipe.inputs.map((input) => `${input.item}x${input.count}`).join(" + ");
-      rows.push(
-        `<div class="${status}">${i + 1}. ${recipe.name}: ${inputs} -> ${recipe.output.item}x${recipe.output.count}</div>`
-      );
-    }
-    this.crafting.innerHTML = rows.join("");
+export function renderItemSlot(slot: HTMLElement, stack: ItemStack | null): void {
+  if (!stack) {
+    slot.textContent = "";
+    return;
+  }
+  const tool = getToolDefinition(stack.item);
+  if (tool && stack.durability !== undefined) {
+    // Fades from green to red as the tool wears down.
+    const fraction = Math.max(0, Math.min(1, stack.durability / tool.maxDurability));
+    const color = `hsl(${Math.round(fraction * 120)}, 80%, 50%)`;
+    const bar = `<div class="durability"><div style="width: ${fraction * 100}%; background: ${color}"></div></div>`;
+    slot.innerHTML = `${stack.item}${bar}`;
+  } else {
+    slot.textContent = `${stack.item} x${stack.count}`;
   }
 }
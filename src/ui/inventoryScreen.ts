@@ -0,0 +1,363 @@
+import { CHEST_SLOT_COUNT, FURNACE_SMELT_SECONDS } from "../config";
+import { Inventory } from "../game/inventory";
+import { getGridPattern, INVENTORY_GRID_SIZE } from "../shared/craftingGrid";
+import { FURNACE_FUEL_SLOT, FURNACE_INPUT_SLOT, FURNACE_OUTPUT_SLOT } from "../shared/furnace";
+import { InventorySection, SECTION_SIZES, SlotRef } from "../shared/inventorySlots";
+import { BlockEntityState, SharedItemStack } from "../shared/protocol";
+import { findRecipe, getCraftableRecipes, getRecipesUsing } from "../shared/recipes";
+import { renderItemSlot } from "./hud";
+
+export interface InventoryScreenHandlers {
+  onMove: (from: SlotRef, to: SlotRef, count: number) => void;
+  onCraft: () => void;
+  // Shift-click while a container is open.
+  onTransfer: (from: SlotRef) => void;
+}
+
+interface HeldStack {
+  ref: SlotRef;
+  count: number;
+}
+
+const ARMOR_LABELS = ["Head", "Chest", "Legs", "Feet"];
+
+const CONTAINER_TITLES: Record<BlockEntityState["type"], string> = {
+  furnace: "Furnace",
+  chest: "Chest"
+};
+
+// Full-screen inventory opened with E. Stacks are picked up with a click (right click takes half) and put
+// down with a second click or by dragging; the actual move goes through the handler so multiplayer can ask
+// the server first.
+//
+// The crafting grid's cells are slots like any other. Crafting uses up one item from each filled cell, and
+// whatever is left on the grid goes back to the inventory when the screen closes.
+//
+// Opened on a block such as a furnace or chest, the crafting area gives way to that block's slots, and
+// shift-clicking a slot sends its stack straight across.
+export class InventoryScreen {
+  private readonly root: HTMLDivElement;
+  private readonly title: HTMLDivElement;
+  private readonly crafting: HTMLDivElement;
+  private readonly containerPanel: HTMLDivElement;
+  private readonly craftingGrid: HTMLDivElement;
+  private readonly craftingOutput: HTMLDivElement;
+  private readonly recipeBook: HTMLDivElement;
+  private readonly cursor: HTMLDivElement;
+  private readonly slots = new Map<string, { ref: SlotRef; element: HTMLDivElement }>();
+  private readonly handlers: InventoryScreenHandlers;
+  private inventory: Inventory | null = null;
+  private gridSize = INVENTORY_GRID_SIZE;
+  private container: BlockEntityState | null = null;
+  private furnaceFlame: HTMLDivElement | null = null;
+  private furnaceProgress: HTMLDivElement | null = null;
+  private held: HeldStack | null = null;
+  // Slot the current mouse press picked a stack up from, so releasing over another slot counts as a drag.
+  private dragSource: SlotRef | null = null;
+  private visible = false;
+
+  constructor(parent: HTMLElement, handlers: InventoryScreenHandlers) {
+    this.handlers = handlers;
+
+    this.root = document.createElement("div");
+    this.root.className = "inventory-screen hidden";
+    this.root.addEventListener("contextmenu", (event) => event.preventDefault());
+    this.root.addEventListener("mousemove", (event) => {
+      this.cursor.style.left = `${event.clientX + 12}px`;
+      this.cursor.style.top = `${event.clientY + 12}px`;
+    });
+    this.root.addEventListener("mouseup", () => {
+      this.dragSource = null;
+    });
+
+    const panel = document.createElement("div");
+    panel.className = "inventory-panel";
+    this.title = document.createElement("div");
+    this.title.className = "inventory-title";
+    panel.appendChild(this.title);
+
+    const top = document.createElement("div");
+    top.className = "inventory-top";
+    const equipment = document.createElement("div");
+    equipment.className = "inventory-equipment";
+    for (let i = 0; i < SECTION_SIZES.armor; i += 1) {
+      equipment.appendChild(this.createSlot({ section: "armor", index: i }, ARMOR_LABELS[i]));
+    }
+    equipment.appendChild(this.createSlot({ section: "offhand", index: 0 }, "Offhand"));
+    top.appendChild(equipment);
+
+    this.crafting = document.createElement("div");
+    this.crafting.className = "inventory-crafting";
+    this.craftingGrid = document.createElement("div");
+    this.craftingGrid.className = "crafting-grid";
+    this.crafting.appendChild(this.craftingGrid);
+    const arrow = document.createElement("div");
+    arrow.className = "crafting-arrow";
+    arrow.textContent = "=>";
+    this.crafting.appendChild(arrow);
+    this.craftingOutput = document.createElement("div");
+    this.craftingOutput.className = "slot crafting-output";
+    this.craftingOutput.addEventListener("mousedown", () => this.onOutputPressed());
+    this.crafting.appendChild(this.craftingOutput);
+    top.appendChild(this.crafting);
+
+    this.containerPanel = document.createElement("div");
+    this.containerPanel.className = "inventory-container hidden";
+    top.appendChild(this.containerPanel);
+    panel.appendChild(top);
+
+    // Lists what the inventory can make, or what the held item goes into.
+    this.recipeBook = document.createElement("div");
+    this.recipeBook.className = "recipe-book";
+    panel.appendChild(this.recipeBook);
+
+    panel.appendChild(this.createGrid("main"));
+    panel.appendChild(this.createGrid("hotbar"));
+
+    const hint = document.createElement("div");
+    hint.className = "inventory-hint";
+    hint.textContent =
+      "Click or drag to move a stack, right click to split it or to put down a single item. Fill the grid with a " +
+      "recipe and click the output to craft. Shift-click to move a stack in or out of a chest or furnace. " +
+      "E to close.";
+    panel.appendChild(hint);
+    this.root.appendChild(panel);
+
+    this.cursor = document.createElement("div");
+    this.cursor.className = "inventory-cursor hidden";
+    this.root.appendChild(this.cursor);
+
+    parent.appendChild(this.root);
+  }
+
+  isVisible(): boolean {
+    return this.visible;
+  }
+
+  // Opens with a 2x2 grid from the inventory key or a 3x3 grid from a crafting table.
+  open(gridSize: number): void {
+    this.show(gridSize === INVENTORY_GRID_SIZE ? "Inventory" : "Crafting Table");
+    this.buildCraftingGrid(gridSize);
+  }
+
+  openContainer(entity: BlockEntityState): void {
+    this.show(CONTAINER_TITLES[entity.type]);
+    this.container = entity;
+    this.buildContainer(entity);
+  }
+
+  getContainer(): BlockEntityState | null {
+    return this.container;
+  }
+
+  // Swaps in fresh state for the open container, e.g. from the server.
+  setContainer(entity: BlockEntityState): void {
+    this.container = entity;
+  }
+
+  close(): void {
+    this.visible = false;
+    this.held = null;
+    this.dragSource = null;
+    this.container = null;
+    this.root.classList.add("hidden");
+  }
+
+  private show(title: string): void {
+    this.visible = true;
+    this.held = null;
+    this.dragSource = null;
+    this.container = null;
+    this.title.textContent = title;
+    this.crafting.classList.remove("hidden");
+    this.recipeBook.classList.remove("hidden");
+    this.containerPanel.classList.add("hidden");
+    this.root.classList.remove("hidden");
+  }
+
+  update(inventory: Inventory): void {
+    this.inventory = inventory;
+    if (!this.visible) {
+      return;
+    }
+    // The inventory may have changed under the held stack, e.g. after the server rejected a move.
+    const heldStack = this.held ? this.getStack(this.held.ref) : null;
+    if (this.held && !heldStack) {
+      this.held = null;
+    } else if (this.held && heldStack) {
+      this.held.count = Math.min(this.held.count, heldStack.count);
+    }
+
+    for (const { ref, element } of this.slots.values()) {
+      renderItemSlot(element, this.getStack(ref));
+      element.classList.toggle("held", this.held !== null && sameSlot(this.held.ref, ref));
+    }
+
+    this.cursor.classList.toggle("hidden", !this.held);
+    if (this.held && heldStack) {
+      this.cursor.textContent = `${heldStack.item} x${this.held.count}`;
+    }
+    this.renderCrafting();
+    this.renderContainer();
+  }
+
+  private getStack(ref: SlotRef): SharedItemStack | null {
+    if (ref.section === "container") {
+      return this.container?.slots[ref.index] ?? null;
+    }
+    return this.inventory?.getSlot(ref) ?? null;
+  }
+
+  private buildContainer(entity: BlockEntityState): void {
+    for (const [key, slot] of this.slots) {
+      if (slot.ref.section === "container") {
+        this.slots.delete(key);
+      }
+    }
+    this.containerPanel.replaceChildren();
+    this.containerPanel.className = `inventory-container container-${entity.type}`;
+    this.crafting.classList.add("hidden");
+    this.recipeBook.classList.add("hidden");
+
+    switch (entity.type) {
+      case "furnace": {
+        const column = document.createElement("div");
+        column.className = "furnace-column";
+        column.appendChild(this.createSlot({ section: "container", index: FURNACE_INPUT_SLOT }, "Input"));
+        this.furnaceFlame = document.createElement("div");
+        this.furnaceFlame.className = "furnace-flame";
+        column.appendChild(this.furnaceFlame);
+        column.appendChild(this.createSlot({ section: "container", index: FURNACE_FUEL_SLOT }, "Fuel"));
+        this.containerPanel.appendChild(column);
+        this.furnaceProgress = document.createElement("div");
+        this.furnaceProgress.className = "furnace-progress";
+        this.containerPanel.appendChild(this.furnaceProgress);
+        const output = this.createSlot({ section: "container", index: FURNACE_OUTPUT_SLOT }, "Output");
+        this.containerPanel.appendChild(output);
+        break;
+      }
+      case "chest":
+        for (let i = 0; i < CHEST_SLOT_COUNT; i += 1) {
+          this.containerPanel.appendChild(this.createSlot({ section: "container", index: i }));
+        }
+        break;
+    }
+  }
+
+  private renderContainer(): void {
+    const furnace = this.container;
+    if (!furnace || furnace.type !== "furnace" || !this.furnaceFlame || !this.furnaceProgress) {
+      return;
+    }
+    const fuelLeft = furnace.burnDuration > 0 ? furnace.burnTime / furnace.burnDuration : 0;
+    const progress = Math.min(1, furnace.cookTime / FURNACE_SMELT_SECONDS);
+    this.furnaceFlame.style.setProperty("--fill", `${Math.round(fuelLeft * 100)}%`);
+    this.furnaceProgress.style.setProperty("--fill", `${Math.round(progress * 100)}%`);
+  }
+
+  private buildCraftingGrid(size: number): void {
+    for (const [key, slot] of this.slots) {
+      if (slot.ref.section === "crafting") {
+        this.slots.delete(key);
+      }
+    }
+    this.gridSize = size;
+    this.craftingGrid.replaceChildren();
+    this.craftingGrid.style.gridTemplateColumns = `repeat(${size}, 72px)`;
+    for (let i = 0; i < size * size; i += 1) {
+      this.craftingGrid.appendChild(this.createSlot({ section: "crafting", index: i }));
+    }
+  }
+
+  private renderCrafting(): void {
+    const recipe = this.inventory ? findRecipe(getGridPattern(this.inventory.crafting)) : null;
+    this.craftingOutput.textContent = recipe ? `${recipe.output.item} x${recipe.output.count}` : "";
+    this.craftingOutput.classList.toggle("ready", recipe !== null);
+    this.renderRecipeBook();
+  }
+
+  private renderRecipeBook(): void {
+    const heldStack = this.held ? this.getStack(this.held.ref) : null;
+    if (heldStack) {
+      const uses = getRecipesUsing(heldStack.item).map((recipe) => recipe.name);
+      this.recipeBook.textContent = uses.length > 0 ? `Used in: ${uses.join(", ")}` : "Not used in any recipe";
+      return;
+    }
+    const craftable = this.inventory ? getCraftableRecipes(this.inventory, this.gridSize) : [];
+    this.recipeBook.textContent =
+      craftable.length > 0
+        ? `Can craft: ${craftable.map((recipe) => recipe.name).join(", ")}`
+        : "Nothing craftable with these items";
+  }
+
+  private onOutputPressed(): void {
+    if (this.inventory && findRecipe(getGridPattern(this.inventory.crafting))) {
+      this.handlers.onCraft();
+    }
+  }
+
+  private createGrid(section: InventorySection): HTMLDivElement {
+    const grid = document.createElement("div");
+    grid.className = `inventory-grid inventory-${section}`;
+    for (let i = 0; i < SECTION_SIZES[section]; i += 1) {
+      grid.appendChild(this.createSlot({ section, index: i }));
+    }
+    return grid;
+  }
+
+  private createSlot(ref: SlotRef, label?: string): HTMLDivElement {
+    const element = document.createElement("div");
+    element.className = "slot";
+    if (label) {
+      element.dataset.label = label;
+    }
+    element.addEventListener("mousedown", (event) => this.onSlotPressed(ref, event.button, event.shiftKey));
+    element.addEventListener("mouseup", () => this.onSlotReleased(ref));
+    this.slots.set(`${ref.section}:${ref.index}`, { ref, element });
+    return element;
+  }
+
+  private onSlotPressed(ref: SlotRef, button: number, shift: boolean): void {
+    if (!this.held && shift && this.container) {
+      if (this.getStack(ref)) {
+        this.handlers.onTransfer(ref);
+      }
+      return;
+    }
+    if (this.held) {
+      if (sameSlot(this.held.ref, ref)) {
+        this.held = null;
+      } else if (button === 2) {
+        // Right click drops a single item and keeps holding the rest.
+        this.handlers.onMove(this.held.ref, ref, 1);
+        this.held.count -= 1;
+        if (this.held.count <= 0) {
+          this.held = null;
+        }
+      } else {
+        this.handlers.onMove(this.held.ref, ref, this.held.count);
+        this.held = null;
+      }
+      return;
+    }
+
+    const stack = this.getStack(ref);
+    if (!stack) {
+      return;
+    }
+    this.held = { ref, count: button === 2 ? Math.ceil(stack.count / 2) : stack.count };
+    this.dragSource = ref;
+  }
+
+  private onSlotReleased(ref: SlotRef): void {
+    if (!this.held || !this.dragSource || sameSlot(this.dragSource, ref)) {
+      return;
+    }
+    this.handlers.onMove(this.held.ref, ref, this.held.count);
+    this.held = null;
+  }
+}
+
+function sameSlot(a: SlotRef, b: SlotRef): boolean {
+  return a.section === b.section && a.index === b.index;
+}
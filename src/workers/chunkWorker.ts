@@ -0,0 +1,41 @@
+import { buildChunkMesh, meshTransferables } from "../render/chunkMesher";
+import { WorldGenerator } from "../world/generator";
+import { computeChunkLight } from "../world/lighting";
+import type { ChunkWorkerRequest, ChunkWorkerResponse } from "./chunkWorkerPool";
+
+let generator: WorldGenerator | null = null;
+let generatorSeed = 0;
+
+function getGenerator(seed: number): WorldGenerator {
+  if (!generator || generatorSeed !== seed) {
+    generator = new WorldGenerator(seed);
+    generatorSeed = seed;
+  }
+  return generator;
+}
+
+function respond(response: ChunkWorkerResponse, transfer: Transferable[]): void {
+  self.postMessage(response, { transfer });
+}
+
+self.addEventListener("message", (event: MessageEvent<ChunkWorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case "generate": {
+      const chunk = getGenerator(request.seed).generateChunk(request.cx, request.cz);
+      computeChunkLight(chunk);
+      respond(
+        { type: "generated", blocks: chunk.blocks, light: chunk.light },
+        [chunk.blocks.buffer, chunk.light.buffer]
+      );
+      break;
+    }
+    case "mesh": {
+      const mesh = buildChunkMesh(request.neighborhood);
+      respond({ type: "meshed", mesh }, meshTransferables(mesh));
+      break;
+    }
+    default:
+      break;
+  }
+});
@@ -0,0 +1,115 @@
+import { ChunkMeshData, ChunkNeighborhood } from "../render/chunkMesher";
+import { ChunkData } from "../world/chunk";
+
+export type ChunkWorkerRequest =
+  | { type: "generate"; seed: number; cx: number; cz: number }
+  | { type: "mesh"; neighborhood: ChunkNeighborhood };
+
+export type ChunkWorkerResponse =
+  | { type: "generated"; blocks: Uint16Array; light: Uint8Array }
+  | { type: "meshed"; mesh: ChunkMeshData };
+
+interface PendingJob {
+  request: ChunkWorkerRequest;
+  transfer: Transferable[];
+  resolve: (response: ChunkWorkerResponse) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: PendingJob | null;
+}
+
+export class ChunkWorkerPool {
+  readonly size: number;
+  private readonly workers: PoolWorker[] = [];
+  private readonly queue: PendingJob[] = [];
+
+  constructor(size: number) {
+    this.size = Math.max(1, size);
+    for (let i = 0; i < this.size; i += 1) {
+      const worker = new Worker(new URL("./chunkWorker.ts", import.meta.url), { type: "module" });
+      const entry: PoolWorker = { worker, job: null };
+      worker.addEventListener("message", (event: MessageEvent<ChunkWorkerResponse>) => {
+        this.finishJob(entry, (job) => job.resolve(event.data));
+      });
+      // A worker that throws or sends an unreadable reply fails its job rather than holding it forever.
+      worker.addEventListener("error", (event) => {
+        this.finishJob(entry, (job) => job.reject(new Error(`Chunk worker failed: ${event.message}`)));
+      });
+      worker.addEventListener("messageerror", () => {
+        this.finishJob(entry, (job) => job.reject(new Error("Chunk worker reply could not be read")));
+      });
+      this.workers.push(entry);
+    }
+  }
+
+  getQueuedJobCount(): number {
+    return this.queue.length + this.workers.filter((entry) => entry.job !== null).length;
+  }
+
+  // Generated chunks come back with their own light already computed, ready to stitch to neighbors.
+  async generateChunk(seed: number, cx: number, cz: number): Promise<ChunkData> {
+    const response = await this.run({ type: "generate", seed, cx, cz }, []);
+    if (response.type !== "generated") {
+      throw new Error(`Unexpected chunk worker response ${response.type}`);
+    }
+    const chunk = new ChunkData(cx, cz, response.blocks);
+    chunk.light.set(response.light);
+    return chunk;
+  }
+
+  // The neighborhood buffers are transferred, so callers must pass copies they no longer need.
+  async meshChunk(neighborhood: ChunkNeighborhood): Promise<ChunkMeshData> {
+    const transfer: Transferable[] = [];
+    for (const snapshot of neighborhood) {
+      if (snapshot) {
+        transfer.push(snapshot.blocks.buffer, snapshot.meta.buffer, snapshot.light.buffer);
+      }
+    }
+    const response = await this.run({ type: "mesh", neighborhood }, transfer);
+    if (response.type !== "meshed") {
+      throw new Error(`Unexpected chunk worker response ${response.type}`);
+    }
+    return response.mesh;
+  }
+
+  dispose(): void {
+    for (const entry of this.workers) {
+      entry.worker.terminate();
+    }
+    this.workers.length = 0;
+    this.queue.length = 0;
+  }
+
+  private run(request: ChunkWorkerRequest, transfer: Transferable[]): Promise<ChunkWorkerResponse> {
+    return new Promise<ChunkWorkerResponse>((resolve, reject) => {
+      this.queue.push({ request, transfer, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  private finishJob(entry: PoolWorker, settle: (job: PendingJob) => void): void {
+    const job = entry.job;
+    entry.job = null;
+    if (job) {
+      settle(job);
+    }
+    this.dispatch();
+  }
+
+  private dispatch(): void {
+    for (const entry of this.workers) {
+      if (entry.job) {
+        continue;
+      }
+      const job = this.queue.shift();
+      if (!job) {
+        return;
+      }
+      entry.job = job;
+      entry.worker.postMessage(job.request, job.transfer);
+    }
+  }
+}
@@ -0,0 +1,260 @@
+import { BlockId } from "../types";
+import { ValueNoise2D } from "../noise";
+
+export type BiomeId = "ocean" | "plains" | "desert" | "forest" | "jungle" | "swamp" | "snowy_mountains";
+
+export type TreeType = "oak" | "birch" | "spruce" | "jungle" | "swamp" | "cactus";
+
+export interface TreeChoice {
+  type: TreeType;
+  weight: number;
+}
+
+// Single-block plants scattered over the surface.
+export interface DecorationChoice {
+  block: BlockId;
+  // Chance per surface column.
+  density: number;
+}
+
+export interface BiomeDefinition {
+  id: BiomeId;
+  name: string;
+  // Terrain height is baseHeight plus up to heightVariation blocks either way from the hill noise.
+  baseHeight: number;
+  heightVariation: number;
+  surfaceBlock: BlockId;
+  subsurfaceBlock: BlockId;
+  subsurfaceDepth: number;
+  // Chance per surface column of growing a tree, whose species is picked by weight from trees.
+  treeDensity: number;
+  trees: TreeChoice[];
+  decorations: DecorationChoice[];
+  // Where the biome sits in the temperature/humidity plane, both 0-1.
+  temperature: number;
+  humidity: number;
+}
+
+export const BIOMES: Record<BiomeId, BiomeDefinition> = {
+  ocean: {
+    id: "ocean",
+    name: "Ocean",
+    baseHeight: 15,
+    heightVariation: 6,
+    surfaceBlock: BlockId.Sand,
+    subsurfaceBlock: BlockId.Sand,
+    subsurfaceDepth: 3,
+    treeDensity: 0,
+    trees: [],
+    decorations: [],
+    temperature: 0.5,
+    humidity: 0.5
+  },
+  plains: {
+    id: "plains",
+    name: "Plains",
+    baseHeight: 32,
+    heightVariation: 5,
+    surfaceBlock: BlockId.Grass,
+    subsurfaceBlock: BlockId.Dirt,
+    subsurfaceDepth: 3,
+    treeDensity: 0.002,
+    trees: [
+      { type: "oak", weight: 3 },
+      { type: "birch", weight: 1 }
+    ],
+    decorations: [
+      { block: BlockId.TallGrass, density: 0.2 },
+      { block: BlockId.Poppy, density: 0.008 },
+      { block: BlockId.Dandelion, density: 0.01 }
+    ],
+    temperature: 0.6,
+    humidity: 0.35
+  },
+  desert: {
+    id: "desert",
+    name: "Desert",
+    baseHeight: 31,
+    heightVariation: 7,
+    surfaceBlock: BlockId.Sand,
+    subsurfaceBlock: BlockId.Sand,
+    subsurfaceDepth: 5,
+    treeDensity: 0.004,
+    trees: [{ type: "cactus", weight: 1 }],
+    decorations: [],
+    temperature: 0.9,
+    humidity: 0.1
+  },
+  forest: {
+    id: "forest",
+    name: "Forest",
+    baseHeight: 34,
+    heightVariation: 11,
+    surfaceBlock: BlockId.Grass,
+    subsurfaceBlock: BlockId.Dirt,
+    subsurfaceDepth: 3,
+    treeDensity: 0.03,
+    trees: [
+      { type: "oak", weight: 3 },
+      { type: "birch", weight: 2 }
+    ],
+    decorations: [
+      { block: BlockId.TallGrass, density: 0.08 },
+      { block: BlockId.Poppy, density: 0.003 },
+      { block: BlockId.Dandelion, density: 0.003 }
+    ],
+    temperature: 0.5,
+    humidity: 0.7
+  },
+  jungle: {
+    id: "jungle",
+    name: "Jungle",
+    baseHeight: 33,
+    heightVariation: 10,
+    surfaceBlock: BlockId.Grass,
+    subsurfaceBlock: BlockId.Dirt,
+    subsurfaceDepth: 3,
+    treeDensity: 0.05,
+    trees: [
+      { type: "jungle", weight: 3 },
+      { type: "oak", weight: 1 }
+    ],
+    decorations: [
+      { block: BlockId.TallGrass, density: 0.35 },
+      { block: BlockId.Poppy, density: 0.01 }
+    ],
+    temperature: 0.95,
+    humidity: 0.75
+  },
+  swamp: {
+    id: "swamp",
+    name: "Swamp",
+    baseHeight: 28,
+    heightVariation: 2,
+    surfaceBlock: BlockId.Grass,
+    subsurfaceBlock: BlockId.Dirt,
+    subsurfaceDepth: 3,
+    treeDensity: 0.012,
+    trees: [{ type: "swamp", weight: 1 }],
+    decorations: [{ block: BlockId.TallGrass, density: 0.15 }],
+    temperature: 0.75,
+    humidity: 0.95
+  },
+  snowy_mountains: {
+    id: "snowy_mountains",
+    name: "Snowy Mountains",
+    baseHeight: 48,
+    heightVariation: 30,
+    surfaceBlock: BlockId.Snow,
+    subsurfaceBlock: BlockId.Stone,
+    subsurfaceDepth: 2,
+    treeDensity: 0.008,
+    trees: [{ type: "spruce", weight: 1 }],
+    decorations: [],
+    temperature: 0.1,
+    humidity: 0.45
+  }
+};
+
+const LAND_BIOMES: BiomeDefinition[] = [
+  BIOMES.plains,
+  BIOMES.desert,
+  BIOMES.forest,
+  BIOMES.jungle,
+  BIOMES.swamp,
+  BIOMES.snowy_mountains
+];
+
+const CLIMATE_SCALE = 0.0028;
+const CONTINENT_SCALE = 0.0018;
+// Wider spreads blend neighboring biomes over more blocks.
+const CLIMATE_BLEND = 0.012;
+const OCEAN_SHORE_LOW = 0.3;
+const OCEAN_SHORE_HIGH = 0.42;
+
+export interface BiomeWeight {
+  biome: BiomeDefinition;
+  weight: number;
+}
+
+// Climate fields deciding which biome each column belongs to. Weights vary smoothly with position,
+// so anything blended with them (like terrain height) has no seams at biome borders.
+export class BiomeMap {
+  private readonly temperatureNoise: ValueNoise2D;
+  private readonly humidityNoise: ValueNoise2D;
+  private readonly continentNoise: ValueNoise2D;
+
+  constructor(seed: number) {
+    this.temperatureNoise = new ValueNoise2D((seed | 0) ^ 0x51e2a7);
+    this.humidityNoise = new ValueNoise2D((seed | 0) ^ 0x2c9f04);
+    this.continentNoise = new ValueNoise2D((seed | 0) ^ 0x6b11d3);
+  }
+
+  // Normalized weights of every biome that contributes to the column; they sum to 1.
+  getWeights(wx: number, wz: number): BiomeWeight[] {
+    const temperature = stretch(this.temperatureNoise.fbm(wx * CLIMATE_SCALE, wz * CLIMATE_SCALE, 3));
+    const humidity = stretch(this.humidityNoise.fbm(wx * CLIMATE_SCALE, wz * CLIMATE_SCALE, 3));
+    const continent = stretch(this.continentNoise.fbm(wx * CONTINENT_SCALE, wz * CONTINENT_SCALE, 4));
+    const ocean = 1 - smoothstep(OCEAN_SHORE_LOW, OCEAN_SHORE_HIGH, continent);
+
+    const weights: BiomeWeight[] = [];
+    let landTotal = 0;
+    for (const biome of LAND_BIOMES) {
+      const dt = temperature - biome.temperature;
+      const dh = humidity - biome.humidity;
+      const weight = Math.exp(-(dt * dt + dh * dh) / CLIMATE_BLEND);
+      landTotal += weight;
+      weights.push({ biome, weight });
+    }
+    const result: BiomeWeight[] = [];
+    for (const entry of weights) {
+      const weight = (entry.weight / landTotal) * (1 - ocean);
+      if (weight > 0.001) {
+        result.push({ biome: entry.biome, weight });
+      }
+    }
+    if (ocean > 0.001) {
+      result.push({ biome: BIOMES.ocean, weight: ocean });
+    }
+    return result;
+  }
+
+  getBiome(wx: number, wz: number): BiomeDefinition {
+    return dominantBiome(this.getWeights(wx, wz));
+  }
+}
+
+export function dominantBiome(weights: BiomeWeight[]): BiomeDefinition {
+  let best = weights[0];
+  for (const entry of weights) {
+    if (entry.weight > best.weight) {
+      best = entry;
+    }
+  }
+  return best.biome;
+}
+
+export function pickTree(biome: BiomeDefinition, roll: number): TreeType | null {
+  let total = 0;
+  for (const choice of biome.trees) {
+    total += choice.weight;
+  }
+  let remaining = roll * total;
+  for (const choice of biome.trees) {
+    remaining -= choice.weight;
+    if (remaining < 0) {
+      return choice.type;
+    }
+  }
+  return null;
+}
+
+// Fractal value noise clusters around 0.5; spread it back out over roughly 0-1.
+function stretch(value: number): number {
+  return Math.max(0, Math.min(1, (value - 0.5) * 2.4 + 0.5));
+}
+
+function smoothstep(edge0: number, edge1: number, value: number): number {
+  const t = Math.max(0, Math.min(1, (value - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+}
@@ -0,0 +1,87 @@
+import { WORLD_SEA_LEVEL } from "../config";
+import { ValueNoise2D, ValueNoise3D } from "../noise";
+
+const MIN_CAVE_Y = 4;
+// Two noise fields crossing their midpoints at the same spot trace thin, winding tubes.
+const TUNNEL_SCALE_XZ = 0.035;
+const TUNNEL_SCALE_Y = 0.06;
+const TUNNEL_WIDTH = 0.03;
+const CAVERN_SCALE_XZ = 0.022;
+const CAVERN_SCALE_Y = 0.045;
+const CAVERN_THRESHOLD = 0.72;
+const CAVERN_MAX_Y = 40;
+const RAVINE_SCALE = 0.0045;
+const RAVINE_MASK_SCALE = 0.0035;
+const RAVINE_WIDTH = 0.008;
+const RAVINE_MIN_Y = 6;
+
+// Decides which underground blocks are hollowed out. Everything is a pure function of world position,
+// so carving lines up across chunk borders and every generator with the same seed agrees.
+export class CaveCarver {
+  private readonly tunnelNoiseA: ValueNoise3D;
+  private readonly tunnelNoiseB: ValueNoise3D;
+  private readonly cavernNoise: ValueNoise3D;
+  private readonly ravineNoise: ValueNoise2D;
+  private readonly ravineMaskNoise: ValueNoise2D;
+  private readonly ravineDepthNoise: ValueNoise2D;
+
+  constructor(seed: number) {
+    this.tunnelNoiseA = new ValueNoise3D((seed | 0) ^ 0x7722ff);
+    this.tunnelNoiseB = new ValueNoise3D((seed | 0) ^ 0x1b873e);
+    this.cavernNoise = new ValueNoise3D((seed | 0) ^ 0x4d09c5);
+    this.ravineNoise = new ValueNoise2D((seed | 0) ^ 0x63a1f0);
+    this.ravineMaskNoise = new ValueNoise2D((seed | 0) ^ 0x2e5b17);
+    this.ravineDepthNoise = new ValueNoise2D((seed | 0) ^ 0x58cc42);
+  }
+
+  // Lowest y a ravine cuts down to in this column, or Infinity when no ravine passes through.
+  getRavineFloor(wx: number, wz: number, surface: number): number {
+    if (surface <= WORLD_SEA_LEVEL + 1) {
+      return Infinity;
+    }
+    const mask = this.ravineMaskNoise.fbm(wx * RAVINE_MASK_SCALE, wz * RAVINE_MASK_SCALE, 2);
+    const strength = Math.max(0, Math.min(1, (mask - 0.6) / 0.12));
+    if (strength <= 0) {
+      return Infinity;
+    }
+    const offset = Math.abs(this.ravineNoise.fbm(wx * RAVINE_SCALE, wz * RAVINE_SCALE, 3) - 0.5);
+    const halfWidth = RAVINE_WIDTH * strength;
+    if (offset >= halfWidth) {
+      return Infinity;
+    }
+    // Steep walls that narrow toward the bottom.
+    const center = Math.sqrt(1 - offset / halfWidth);
+    const depth = (16 + this.ravineDepthNoise.sample(wx * 0.02, wz * 0.02) * 18) * strength;
+    return Math.max(RAVINE_MIN_Y, Math.floor(surface - depth * center));
+  }
+
+  isCave(wx: number, y: number, wz: number, surface: number): boolean {
+    if (y < MIN_CAVE_Y) {
+      return false;
+    }
+    // Keep a roof under the sea floor so generation never leaves air pockets beneath the water.
+    if (surface <= WORLD_SEA_LEVEL + 2 && y > surface - 4) {
+      return false;
+    }
+    return this.isTunnel(wx, y, wz) || this.isCavern(wx, y, wz);
+  }
+
+  private isTunnel(wx: number, y: number, wz: number): boolean {
+    const a = this.tunnelNoiseA.fbm(wx * TUNNEL_SCALE_XZ, y * TUNNEL_SCALE_Y, wz * TUNNEL_SCALE_XZ, 2);
+    if (Math.abs(a - 0.5) >= TUNNEL_WIDTH) {
+      return false;
+    }
+    const b = this.tunnelNoiseB.fbm(wx * TUNNEL_SCALE_XZ, y * TUNNEL_SCALE_Y, wz * TUNNEL_SCALE_XZ, 2);
+    return Math.abs(b - 0.5) < TUNNEL_WIDTH;
+  }
+
+  private isCavern(wx: number, y: number, wz: number): boolean {
+    if (y > CAVERN_MAX_Y) {
+      return false;
+    }
+    // Caverns fade out toward the top of their band so their ceilings flatten instead of breaking through.
+    const fade = Math.max(0, (y - (CAVERN_MAX_Y - 10)) / 10);
+    const value = this.cavernNoise.fbm(wx * CAVERN_SCALE_XZ, y * CAVERN_SCALE_Y, wz * CAVERN_SCALE_XZ, 3);
+    return value > CAVERN_THRESHOLD + fade * 0.1;
+  }
+}
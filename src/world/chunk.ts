@@ -1,15 +1,27 @@
 import { CHUNK_SIZE, WORLD_HEIGHT } from "../config";
 import { BlockId } from "../types";
+import { getBlockEntityType } from "../shared/blockEntities";
+import { BlockEntityState } from "../shared/protocol";
+
+export const CHUNK_VOLUME = CHUNK_SIZE * WORLD_HEIGHT * CHUNK_SIZE;
 
 export class ChunkData {
   readonly cx: number;
   readonly cz: number;
   readonly blocks: Uint16Array;
+  // Per-block metadata alongside the ids, e.g. the flow level of water.
+  readonly meta: Uint8Array;
+  // Derived lighting, skylight in the high nibble and block light in the low one; never persisted.
+  readonly light: Uint8Array;
+  // Per-position state such as furnace contents, keyed by block index.
+  readonly blockEntities = new Map<number, BlockEntityState>();
 
-  constructor(cx: number, cz: number, existing?: Uint16Array) {
+  constructor(cx: number, cz: number, existing?: Uint16Array, existingMeta?: Uint8Array) {
     this.cx = cx;
     this.cz = cz;
-    this.blocks = existing ?? new Uint16Array(CHUNK_SIZE * WORLD_HEIGHT * CHUNK_SIZE);
+    this.blocks = existing ?? new Uint16Array(CHUNK_VOLUME);
+    this.meta = existingMeta ?? new Uint8Array(CHUNK_VOLUME);
+    this.light = new Uint8Array(CHUNK_VOLUME);
   }
 
   get(localX: number, y: number, localZ: number): BlockId {
@@ -26,6 +38,50 @@ export class ChunkData {
     this.blocks[this.index(localX, y, localZ)] = blockId;
   }
 
+  getMeta(localX: number, y: number, localZ: number): number {
+    if (!this.inBounds(localX, y, localZ)) {
+      return 0;
+    }
+    return this.meta[this.index(localX, y, localZ)];
+  }
+
+  setMeta(localX: number, y: number, localZ: number, value: number): void {
+    if (!this.inBounds(localX, y, localZ)) {
+      return;
+    }
+    this.meta[this.index(localX, y, localZ)] = value;
+  }
+
+  getBlockEntity(localX: number, y: number, localZ: number): BlockEntityState | null {
+    if (!this.inBounds(localX, y, localZ)) {
+      return null;
+    }
+    return this.blockEntities.get(this.index(localX, y, localZ)) ?? null;
+  }
+
+  setBlockEntity(localX: number, y: number, localZ: number, entity: BlockEntityState | null): void {
+    if (!this.inBounds(localX, y, localZ)) {
+      return;
+    }
+    const index = this.index(localX, y, localZ);
+    if (entity) {
+      this.blockEntities.set(index, entity);
+    } else {
+      this.blockEntities.delete(index);
+    }
+  }
+
+  // Re-attaches saved block entities, skipping any whose block no longer matches.
+  restoreBlockEntities(entities: BlockEntityState[]): void {
+    for (const entity of entities) {
+      const localX = entity.x - this.cx * CHUNK_SIZE;
+      const localZ = entity.z - this.cz * CHUNK_SIZE;
+      if (getBlockEntityType(this.get(localX, entity.y, localZ)) === entity.type) {
+        this.setBlockEntity(localX, entity.y, localZ, entity);
+      }
+    }
+  }
+
   private index(localX: number, y: number, localZ: number): number {
     return localX + localZ * CHUNK_SIZE + y * CHUNK_SIZE * CHUNK_SIZE;
   }
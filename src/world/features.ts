@@ -0,0 +1,390 @@
+import { BlockId } from "../types";
+import { CHUNK_SIZE, WORLD_HEIGHT, WORLD_SEA_LEVEL } from "../config";
+import { createRandom, hashRange } from "../noise";
+import { BiomeDefinition, BiomeId, pickTree, TreeType } from "./biomes";
+import { ChunkData } from "./chunk";
+
+// Top of a column as the terrain pass will generate it; block is Air when caves or ravines open it up.
+export interface SurfaceSample {
+  y: number;
+  block: BlockId;
+  biome: BiomeDefinition;
+}
+
+// Terrain height and biome of one column in the chunk being decorated.
+export interface TerrainColumn {
+  height: number;
+  biome: BiomeDefinition;
+}
+
+export interface SurfaceSource {
+  sampleSurface(wx: number, wz: number): SurfaceSample;
+}
+
+type StructureKind = "boulder" | "well" | "ruin";
+
+interface StructureDefinition {
+  kind: StructureKind;
+  // Chance per chunk; at most one structure starts in any chunk.
+  chance: number;
+  biomes: BiomeId[];
+  // Half-width of the footprint that must be level ground.
+  radius: number;
+  maxSlope: number;
+}
+
+interface PlacedFeature {
+  kind: StructureKind | TreeType;
+  x: number;
+  y: number;
+  z: number;
+  seed: number;
+}
+
+// Features may start anywhere in a chunk but must fit within one chunk of their origin.
+const FEATURE_REACH_CHUNKS = 1;
+const MAX_TREE_DENSITY = 0.05;
+
+const STRUCTURES: StructureDefinition[] = [
+  { kind: "ruin", chance: 0.03, biomes: ["plains", "forest", "desert", "snowy_mountains"], radius: 3, maxSlope: 2 },
+  { kind: "well", chance: 0.025, biomes: ["plains", "desert"], radius: 2, maxSlope: 1 },
+  { kind: "boulder", chance: 0.18, biomes: ["plains", "forest", "snowy_mountains"], radius: 0, maxSlope: 0 }
+];
+
+// Places trees and small structures so they can straddle chunk borders. Every chunk replays the features
+// of its neighbors and keeps only the blocks inside itself, and features are planned from the seed and
+// the predicted terrain alone, so the result never depends on which chunks happen to be loaded.
+export class FeaturePlacer {
+  private readonly treeSeed: number;
+  private readonly structureSeed: number;
+  private readonly decorationSeed: number;
+  private readonly surface: SurfaceSource;
+
+  constructor(seed: number, surface: SurfaceSource) {
+    this.treeSeed = (seed | 0) ^ 0x44aa1f;
+    this.structureSeed = (seed | 0) ^ 0x3a7e55;
+    this.decorationSeed = (seed | 0) ^ 0x6f1d93;
+    this.surface = surface;
+  }
+
+  // Columns are indexed lx + lz * CHUNK_SIZE.
+  decorateChunk(chunk: ChunkData, columns: TerrainColumn[]): void {
+    const writer = new ChunkWriter(chunk);
+    for (let dz = -FEATURE_REACH_CHUNKS; dz <= FEATURE_REACH_CHUNKS; dz += 1) {
+      for (let dx = -FEATURE_REACH_CHUNKS; dx <= FEATURE_REACH_CHUNKS; dx += 1) {
+        for (const feature of this.planFeatures(chunk.cx + dx, chunk.cz + dz)) {
+          buildFeature(writer, feature);
+        }
+      }
+    }
+    this.placeDecorations(chunk, columns);
+  }
+
+  private planFeatures(cx: number, cz: number): PlacedFeature[] {
+    const features: PlacedFeature[] = [];
+    const structure = this.planStructure(cx, cz);
+    if (structure) {
+      features.push(structure);
+    }
+
+    for (let lz = 0; lz < CHUNK_SIZE; lz += 1) {
+      for (let lx = 0; lx < CHUNK_SIZE; lx += 1) {
+        const wx = cx * CHUNK_SIZE + lx;
+        const wz = cz * CHUNK_SIZE + lz;
+        const chance = hashRange(this.treeSeed, wx, wz);
+        // Cheap rejection first; only likely candidates pay for a terrain sample.
+        if (chance < 1 - MAX_TREE_DENSITY) {
+          continue;
+        }
+        const sample = this.surface.sampleSurface(wx, wz);
+        const treeType = pickTree(sample.biome, hashRange(this.treeSeed ^ 0x5ec1e5, wx, wz));
+        if (!treeType || chance < 1 - sample.biome.treeDensity) {
+          continue;
+        }
+        if (sample.y < WORLD_SEA_LEVEL || sample.y > WORLD_HEIGHT - 16) {
+          continue;
+        }
+        if (!canTreeGrowOn(treeType, sample.block)) {
+          continue;
+        }
+        features.push({ kind: treeType, x: wx, y: sample.y, z: wz, seed: hashRange(this.treeSeed ^ 0xaa1, wx, wz) });
+      }
+    }
+    return features;
+  }
+
+  // Plants only go on untouched ground with open air above, so they skip trunks, boulders and ruins.
+  private placeDecorations(chunk: ChunkData, columns: TerrainColumn[]): void {
+    for (let lz = 0; lz < CHUNK_SIZE; lz += 1) {
+      for (let lx = 0; lx < CHUNK_SIZE; lx += 1) {
+        const { height, biome } = columns[lx + lz * CHUNK_SIZE];
+        if (biome.decorations.length === 0 || height + 1 >= WORLD_HEIGHT) {
+          continue;
+        }
+        if (chunk.get(lx, height, lz) !== BlockId.Grass || chunk.get(lx, height + 1, lz) !== BlockId.Air) {
+          continue;
+        }
+        let roll = hashRange(this.decorationSeed, chunk.cx * CHUNK_SIZE + lx, chunk.cz * CHUNK_SIZE + lz);
+        for (const decoration of biome.decorations) {
+          roll -= decoration.density;
+          if (roll < 0) {
+            chunk.set(lx, height + 1, lz, decoration.block);
+            break;
+          }
+        }
+      }
+    }
+  }
+
+  private planStructure(cx: number, cz: number): PlacedFeature | null {
+    const seed = hashRange(this.structureSeed, cx, cz);
+    const random = createRandom(Math.floor(seed * 0xffffffff));
+    let roll = random();
+    const definition = STRUCTURES.find((entry) => {
+      roll -= entry.chance;
+      return roll < 0;
+    });
+    if (!definition) {
+      return null;
+    }
+
+    // Keep the origin far enough inside the chunk that the footprint stays within reach.
+    const margin = definition.radius + 1;
+    const x = cx * CHUNK_SIZE + margin + Math.floor(random() * (CHUNK_SIZE - margin * 2));
+    const z = cz * CHUNK_SIZE + margin + Math.floor(random() * (CHUNK_SIZE - margin * 2));
+    const center = this.surface.sampleSurface(x, z);
+    if (!definition.biomes.includes(center.biome.id) || !isBuildableGround(center) || center.y > WORLD_HEIGHT - 8) {
+      return null;
+    }
+    const r = definition.radius;
+    for (const [ox, oz] of [[-r, -r], [r, -r], [-r, r], [r, r]]) {
+      const corner = this.surface.sampleSurface(x + ox, z + oz);
+      if (!isBuildableGround(corner) || Math.abs(corner.y - center.y) > definition.maxSlope) {
+        return null;
+      }
+    }
+    return { kind: definition.kind, x, y: center.y, z, seed: random() };
+  }
+}
+
+// Writes world-space blocks into one chunk, silently dropping anything that falls outside it.
+class ChunkWriter {
+  private readonly chunk: ChunkData;
+  private readonly originX: number;
+  private readonly originZ: number;
+
+  constructor(chunk: ChunkData) {
+    this.chunk = chunk;
+    this.originX = chunk.cx * CHUNK_SIZE;
+    this.originZ = chunk.cz * CHUNK_SIZE;
+  }
+
+  set(wx: number, y: number, wz: number, block: BlockId): void {
+    const lx = wx - this.originX;
+    const lz = wz - this.originZ;
+    if (lx < 0 || lz < 0 || lx >= CHUNK_SIZE || lz >= CHUNK_SIZE || y < 0 || y >= WORLD_HEIGHT) {
+      return;
+    }
+    this.chunk.set(lx, y, lz, block);
+  }
+
+  // Like set, but only into empty space so features never cut into terrain or each other.
+  fill(wx: number, y: number, wz: number, block: BlockId): void {
+    const lx = wx - this.originX;
+    const lz = wz - this.originZ;
+    if (lx < 0 || lz < 0 || lx >= CHUNK_SIZE || lz >= CHUNK_SIZE || y < 0 || y >= WORLD_HEIGHT) {
+      return;
+    }
+    const existing = this.chunk.get(lx, y, lz);
+    if (existing === BlockId.Air || existing === BlockId.Water) {
+      this.chunk.set(lx, y, lz, block);
+    }
+  }
+}
+
+function canTreeGrowOn(type: TreeType, ground: BlockId): boolean {
+  if (type === "cactus") {
+    return ground === BlockId.Sand;
+  }
+  return ground === BlockId.Grass || ground === BlockId.Snow;
+}
+
+function isBuildableGround(sample: SurfaceSample): boolean {
+  return sample.block !== BlockId.Air && sample.y > WORLD_SEA_LEVEL + 1;
+}
+
+function buildFeature(writer: ChunkWriter, feature: PlacedFeature): void {
+  switch (feature.kind) {
+    case "oak":
+    case "birch":
+    case "spruce":
+    case "jungle":
+    case "swamp":
+    case "cactus":
+      buildTree(writer, feature.x, feature.y, feature.z, feature.kind, feature.seed);
+      break;
+    case "boulder":
+      buildBoulder(writer, feature.x, feature.y, feature.z, feature.seed);
+      break;
+    case "well":
+      buildWell(writer, feature.x, feature.y, feature.z);
+      break;
+    case "ruin":
+      buildRuin(writer, feature.x, feature.y, feature.z, feature.seed);
+      break;
+    default:
+      break;
+  }
+}
+
+function buildTree(writer: ChunkWriter, x: number, groundY: number, z: number, type: TreeType, sizeRoll: number): void {
+  switch (type) {
+    case "oak": {
+      const trunkHeight = 4 + Math.floor(sizeRoll * 3);
+      buildTrunk(writer, x, groundY, z, trunkHeight, BlockId.Wood);
+      const crownBase = groundY + trunkHeight - 1;
+      const crown = (ox: number, oy: number, oz: number) => Math.abs(ox) + Math.abs(oz) + oy <= 4;
+      buildLeaves(writer, x, crownBase, z, 2, 2, BlockId.Leaves, crown);
+      break;
+    }
+    case "birch": {
+      // Taller and slimmer than oak, with a rounded crown.
+      const trunkHeight = 5 + Math.floor(sizeRoll * 3);
+      buildTrunk(writer, x, groundY, z, trunkHeight, BlockId.BirchWood);
+      const crownBase = groundY + trunkHeight - 2;
+      const crown = (ox: number, oy: number, oz: number) => ox * ox + oz * oz <= (oy < 2 ? 4 : 1);
+      buildLeaves(writer, x, crownBase, z, 2, 3, BlockId.BirchLeaves, crown);
+      break;
+    }
+    case "spruce": {
+      // A narrow cone of leaves tapering to the tip of a tall trunk.
+      const trunkHeight = 6 + Math.floor(sizeRoll * 3);
+      buildTrunk(writer, x, groundY, z, trunkHeight, BlockId.SpruceWood);
+      const crownBase = groundY + 3;
+      const crownHeight = trunkHeight - 1;
+      buildLeaves(writer, x, crownBase, z, 2, crownHeight, BlockId.SpruceLeaves, (ox, oy, oz) => {
+        const radius = Math.round(((crownHeight - oy) / crownHeight) * 2.4);
+        return Math.abs(ox) + Math.abs(oz) <= radius;
+      });
+      writer.fill(x, groundY + trunkHeight + 1, z, BlockId.SpruceLeaves);
+      break;
+    }
+    case "jungle": {
+      // A tall trunk with a broad canopy and a couple of smaller leaf clumps partway up.
+      const trunkHeight = 9 + Math.floor(sizeRoll * 4);
+      buildTrunk(writer, x, groundY, z, trunkHeight, BlockId.JungleWood);
+      const crownBase = groundY + trunkHeight - 1;
+      const canopy = (ox: number, oy: number, oz: number) => ox * ox + oz * oz <= (oy === 0 ? 9 : oy === 1 ? 5 : 1);
+      buildLeaves(writer, x, crownBase, z, 3, 2, BlockId.JungleLeaves, canopy);
+      const clump = (ox: number, oy: number, oz: number) => oy === 0 && Math.abs(ox) + Math.abs(oz) <= 1;
+      const clumpY = groundY + Math.floor(trunkHeight / 2);
+      const side = sizeRoll < 0.5 ? 1 : -1;
+      buildLeaves(writer, x + side, clumpY, z, 1, 0, BlockId.JungleLeaves, clump);
+      buildLeaves(writer, x, clumpY + 2, z - side, 1, 0, BlockId.JungleLeaves, clump);
+      break;
+    }
+    case "swamp": {
+      // Short trunk under a wide, flat canopy.
+      const trunkHeight = 3 + Math.floor(sizeRoll * 2);
+      buildTrunk(writer, x, groundY, z, trunkHeight, BlockId.Wood);
+      const crownBase = groundY + trunkHeight;
+      const crown = (ox: number, oy: number, oz: number) => ox * ox + oz * oz <= (oy === 0 ? 5 : 2);
+      buildLeaves(writer, x, crownBase, z, 2, 1, BlockId.Leaves, crown);
+      break;
+    }
+    case "cactus":
+      buildTrunk(writer, x, groundY, z, 1 + Math.floor(sizeRoll * 3), BlockId.Cactus);
+      break;
+    default:
+      break;
+  }
+}
+
+function buildTrunk(
+  writer: ChunkWriter,
+  x: number,
+  groundY: number,
+  z: number,
+  trunkHeight: number,
+  wood: BlockId
+): void {
+  for (let y = 1; y <= trunkHeight; y += 1) {
+    writer.set(x, groundY + y, z, wood);
+  }
+}
+
+function buildLeaves(
+  writer: ChunkWriter,
+  x: number,
+  baseY: number,
+  z: number,
+  radius: number,
+  layers: number,
+  leaves: BlockId,
+  include: (ox: number, oy: number, oz: number) => boolean
+): void {
+  for (let ox = -radius; ox <= radius; ox += 1) {
+    for (let oz = -radius; oz <= radius; oz += 1) {
+      for (let oy = 0; oy <= layers; oy += 1) {
+        if (include(ox, oy, oz)) {
+          writer.fill(x + ox, baseY + oy, z + oz, leaves);
+        }
+      }
+    }
+  }
+}
+
+// A lumpy, half-buried stone ellipsoid.
+function buildBoulder(writer: ChunkWriter, x: number, groundY: number, z: number, seed: number): void {
+  const random = createRandom(Math.floor(seed * 0xffffffff));
+  const rx = 1.2 + random() * 1.3;
+  const ry = 1 + random();
+  const rz = 1.2 + random() * 1.3;
+  const extent = Math.ceil(Math.max(rx, ry, rz));
+  for (let ox = -extent; ox <= extent; ox += 1) {
+    for (let oy = -extent; oy <= extent; oy += 1) {
+      for (let oz = -extent; oz <= extent; oz += 1) {
+        const d = (ox / rx) ** 2 + (oy / ry) ** 2 + (oz / rz) ** 2;
+        if (d <= 1 - random() * 0.25) {
+          writer.set(x + ox, groundY + oy, z + oz, BlockId.Stone);
+        }
+      }
+    }
+  }
+}
+
+// A stone shaft of water with a wooden roof on corner posts.
+function buildWell(writer: ChunkWriter, x: number, groundY: number, z: number): void {
+  for (let ox = -2; ox <= 2; ox += 1) {
+    for (let oz = -2; oz <= 2; oz += 1) {
+      const edge = Math.abs(ox) === 2 || Math.abs(oz) === 2;
+      const corner = Math.abs(ox) === 2 && Math.abs(oz) === 2;
+      for (let y = groundY - 4; y <= groundY; y += 1) {
+        writer.set(x + ox, y, z + oz, edge || y === groundY - 4 ? BlockId.Stone : BlockId.Water);
+      }
+      writer.set(x + ox, groundY + 1, z + oz, edge ? BlockId.Stone : BlockId.Air);
+      for (let y = groundY + 2; y <= groundY + 3; y += 1) {
+        writer.set(x + ox, y, z + oz, corner ? BlockId.Wood : BlockId.Air);
+      }
+      writer.set(x + ox, groundY + 4, z + oz, BlockId.Wood);
+    }
+  }
+}
+
+// Crumbling stone walls around a floor, with gaps where blocks have fallen away.
+function buildRuin(writer: ChunkWriter, x: number, groundY: number, z: number, seed: number): void {
+  const random = createRandom(Math.floor(seed * 0xffffffff));
+  for (let ox = -3; ox <= 3; ox += 1) {
+    for (let oz = -3; oz <= 3; oz += 1) {
+      const edge = Math.abs(ox) === 3 || Math.abs(oz) === 3;
+      for (let y = groundY - 3; y < groundY; y += 1) {
+        writer.fill(x + ox, y, z + oz, BlockId.Stone);
+      }
+      writer.set(x + ox, groundY, z + oz, BlockId.Stone);
+      const wallHeight = edge ? Math.floor(random() * 4) : 0;
+      for (let oy = 1; oy <= 4; oy += 1) {
+        writer.set(x + ox, groundY + oy, z + oz, oy <= wallHeight ? BlockId.Stone : BlockId.Air);
+      }
+    }
+  }
+}
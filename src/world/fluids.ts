@@ -0,0 +1,178 @@
+import { CHUNK_SIZE, FLUID_TICK_SECONDS, MAX_FLUID_UPDATES_PER_TICK } from "../config";
+import { isLiquidBlock, isSolidBlock } from "../blocks";
+import { BlockId } from "../types";
+
+// Water metadata: 0 is a source block, 1-7 is the horizontal distance from the feeding source,
+// and FALLING marks a column pouring down from above.
+export const WATER_SOURCE = 0;
+export const WATER_MAX_FLOW = 7;
+export const WATER_FALLING = 8;
+
+export interface FluidWorld {
+  getBlock(x: number, y: number, z: number): BlockId;
+  getBlockMeta(x: number, y: number, z: number): number;
+  setBlock(x: number, y: number, z: number, block: BlockId, meta?: number): boolean;
+  isLoaded(x: number, z: number): boolean;
+}
+
+export interface FluidChange {
+  x: number;
+  y: number;
+  z: number;
+  block: BlockId;
+  meta: number;
+}
+
+const HORIZONTAL: Array<[number, number]> = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1]
+];
+
+export class FluidSimulator {
+  private readonly world: FluidWorld;
+  private scheduled = new Map<string, { x: number; y: number; z: number }>();
+  // Cells that came due next to an unloaded chunk; they wait here until that chunk loads.
+  private readonly deferred = new Map<string, { x: number; y: number; z: number }>();
+  private timer = 0;
+
+  constructor(world: FluidWorld) {
+    this.world = world;
+  }
+
+  getScheduledCount(): number {
+    return this.scheduled.size;
+  }
+
+  // Call after any block change so the cell and everything touching it re-evaluates its flow.
+  scheduleAround(x: number, y: number, z: number): void {
+    this.schedule(x, y, z);
+    this.schedule(x + 1, y, z);
+    this.schedule(x - 1, y, z);
+    this.schedule(x, y + 1, z);
+    this.schedule(x, y - 1, z);
+    this.schedule(x, y, z + 1);
+    this.schedule(x, y, z - 1);
+  }
+
+  // Call when a chunk loads so cells on its border that were waiting for it flow again.
+  onChunkLoaded(cx: number, cz: number): void {
+    for (const [key, cell] of this.deferred) {
+      const dx = Math.floor(cell.x / CHUNK_SIZE) - cx;
+      const dz = Math.floor(cell.z / CHUNK_SIZE) - cz;
+      if (Math.abs(dx) <= 1 && Math.abs(dz) <= 1) {
+        this.deferred.delete(key);
+        this.scheduled.set(key, cell);
+      }
+    }
+  }
+
+  update(dt: number): FluidChange[] {
+    this.timer += dt;
+    if (this.timer < FLUID_TICK_SECONDS) {
+      return [];
+    }
+    this.timer = 0;
+
+    // Cells scheduled by this step's own edits wait for the next step, which gives flow its pace.
+    const due = this.scheduled;
+    this.scheduled = new Map();
+    const changes: FluidChange[] = [];
+    let processed = 0;
+    for (const [key, cell] of due) {
+      if (processed >= MAX_FLUID_UPDATES_PER_TICK) {
+        this.scheduled.set(key, cell);
+        continue;
+      }
+      processed += 1;
+      if (!this.isNeighborhoodLoaded(cell.x, cell.z)) {
+        this.deferred.set(key, cell);
+        continue;
+      }
+      const block = this.updateCell(cell.x, cell.y, cell.z);
+      if (block !== null) {
+        const meta = this.world.getBlockMeta(cell.x, cell.y, cell.z);
+        changes.push({ x: cell.x, y: cell.y, z: cell.z, block, meta });
+      }
+    }
+    return changes;
+  }
+
+  private schedule(x: number, y: number, z: number): void {
+    this.scheduled.set(`${x}:${y}:${z}`, { x, y, z });
+  }
+
+  private updateCell(x: number, y: number, z: number): BlockId | null {
+    const block = this.world.getBlock(x, y, z);
+    const isWater = block === BlockId.Water;
+    if (isWater && this.world.getBlockMeta(x, y, z) === WATER_SOURCE) {
+      return null;
+    }
+    if (!isWater && !canFluidReplace(block)) {
+      return null;
+    }
+
+    const level = this.computeLevel(x, y, z);
+    if (level === null) {
+      if (isWater && this.world.setBlock(x, y, z, BlockId.Air)) {
+        return BlockId.Air;
+      }
+      return null;
+    }
+    if (isWater && this.world.getBlockMeta(x, y, z) === level) {
+      return null;
+    }
+    return this.world.setBlock(x, y, z, BlockId.Water, level) ? BlockId.Water : null;
+  }
+
+  // Neighbor reads must never load or generate chunks, so cells on the edge of loaded terrain have to wait.
+  private isNeighborhoodLoaded(x: number, z: number): boolean {
+    if (!this.world.isLoaded(x, z)) {
+      return false;
+    }
+    return HORIZONTAL.every(([dx, dz]) => this.world.isLoaded(x + dx, z + dz));
+  }
+
+  // Level this cell should hold given its neighbors, or null when nothing feeds it.
+  private computeLevel(x: number, y: number, z: number): number | null {
+    if (this.world.getBlock(x, y + 1, z) === BlockId.Water) {
+      return WATER_FALLING;
+    }
+
+    let best: number | null = null;
+    let adjacentSources = 0;
+    for (const [dx, dz] of HORIZONTAL) {
+      const nx = x + dx;
+      const nz = z + dz;
+      if (this.world.getBlock(nx, y, nz) !== BlockId.Water) {
+        continue;
+      }
+      const meta = this.world.getBlockMeta(nx, y, nz);
+      if (meta === WATER_SOURCE) {
+        adjacentSources += 1;
+      }
+      // Water only spreads sideways once it has something to rest on.
+      if (meta !== WATER_SOURCE && canFluidReplace(this.world.getBlock(nx, y - 1, nz))) {
+        continue;
+      }
+      const candidate = (meta === WATER_FALLING ? 0 : meta) + 1;
+      if (candidate <= WATER_MAX_FLOW && (best === null || candidate < best)) {
+        best = candidate;
+      }
+    }
+
+    if (adjacentSources >= 2) {
+      const below = this.world.getBlock(x, y - 1, z);
+      const belowIsSource = below === BlockId.Water && this.world.getBlockMeta(x, y - 1, z) === WATER_SOURCE;
+      if (belowIsSource || isSolidBlock(below)) {
+        return WATER_SOURCE;
+      }
+    }
+    return best;
+  }
+}
+
+export function canFluidReplace(block: BlockId): boolean {
+  return !isSolidBlock(block) && !isLiquidBlock(block);
+}
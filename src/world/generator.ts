@@ -1,48 +1,63 @@
 import { BlockId } from "../types";
 import { CHUNK_SIZE, WORLD_HEIGHT, WORLD_SEA_LEVEL } from "../config";
-import { hashRange, ValueNoise2D } from "../noise";
+import { createRandom, hashRange, ValueNoise2D } from "../noise";
+import { BiomeDefinition, BiomeMap, dominantBiome } from "./biomes";
+import { CaveCarver } from "./caves";
 import { ChunkData } from "./chunk";
+import { FeaturePlacer, SurfaceSample, TerrainColumn } from "./features";
+import { getVeinCount, ORE_VEINS, OreVeinDefinition } from "./ores";
 
 export class WorldGenerator {
   private readonly seed: number;
   private readonly heightNoise: ValueNoise2D;
   private readonly detailNoise: ValueNoise2D;
-  private readonly caveNoise: ValueNoise2D;
-  private readonly treeSeed: number;
+  private readonly oreSeed: number;
+  private readonly biomes: BiomeMap;
+  private readonly caves: CaveCarver;
+  private readonly features: FeaturePlacer;
 
   constructor(seed: number) {
     this.seed = seed | 0;
     this.heightNoise = new ValueNoise2D(this.seed ^ 0x89ab23);
     this.detailNoise = new ValueNoise2D(this.seed ^ 0x3281cd);
-    this.caveNoise = new ValueNoise2D(this.seed ^ 0x7722ff);
-    this.treeSeed = this.seed ^ 0x44aa1f;
+    this.oreSeed = this.seed ^ 0x5c03e1;
+    this.biomes = new BiomeMap(this.seed);
+    this.caves = new CaveCarver(this.seed);
+    this.features = new FeaturePlacer(this.seed, { sampleSurface: (wx, wz) => this.sampleSurface(wx, wz) });
   }
 
   generateChunk(cx: number, cz: number): ChunkData {
     const chunk = new ChunkData(cx, cz);
+    const columns: TerrainColumn[] = [];
+
+    for (let lz = 0; lz < CHUNK_SIZE; lz += 1) {
+      for (let lx = 0; lx < CHUNK_SIZE; lx += 1) {
+        columns.push(this.getColumn(cx * CHUNK_SIZE + lx, cz * CHUNK_SIZE + lz));
+      }
+    }
 
     for (let lx = 0; lx < CHUNK_SIZE; lx += 1) {
       for (let lz = 0; lz < CHUNK_SIZE; lz += 1) {
         const wx = cx * CHUNK_SIZE + lx;
         const wz = cz * CHUNK_SIZE + lz;
-        const height = this.getHeight(wx, wz);
+        const { height, biome } = columns[lx + lz * CHUNK_SIZE];
+        const beach = isBeach(height, biome);
+        const surfaceBlock = beach ? BlockId.Sand : biome.surfaceBlock;
+        const subsurfaceBlock = beach ? BlockId.Sand : biome.subsurfaceBlock;
+        const ravineFloor = this.caves.getRavineFloor(wx, wz, height);
 
         for (let y = 0; y < WORLD_HEIGHT; y += 1) {
           let block = BlockId.Air;
-          if (y <= height) {
-            const stoneDepth = height - 4;
+          if (y >= ravineFloor || (y <= height && this.caves.isCave(wx, y, wz, height))) {
+            block = BlockId.Air;
+          } else if (y <= height) {
+            const stoneDepth = height - 1 - biome.subsurfaceDepth;
             if (y <= stoneDepth) {
               block = BlockId.Stone;
-              if (y > 8 && y < height - 3) {
-                const cave = this.caveNoise.fbm(wx * 0.08, (wz + y) * 0.08, 3);
-                if (cave > 0.72) {
-                  block = BlockId.Air;
-                }
-              }
             } else if (y === height) {
-              block = height <= WORLD_SEA_LEVEL + 1 ? BlockId.Sand : BlockId.Grass;
+              block = surfaceBlock;
             } else {
-              block = height <= WORLD_SEA_LEVEL + 1 ? BlockId.Sand : BlockId.Dirt;
+              block = subsurfaceBlock;
             }
           } else if (y <= WORLD_SEA_LEVEL) {
             block = BlockId.Water;
@@ -52,71 +67,79 @@ export class WorldGenerator {
       }
     }
 
-    this.generateTrees(chunk);
+    this.generateOres(chunk, columns);
+    this.features.decorateChunk(chunk, columns);
     return chunk;
   }
 
-  private generateTrees(chunk: ChunkData): void {
-    for (let lx = 2; lx < CHUNK_SIZE - 2; lx += 1) {
-      for (let lz = 2; lz < CHUNK_SIZE - 2; lz += 1) {
-        const wx = chunk.cx * CHUNK_SIZE + lx;
-        const wz = chunk.cz * CHUNK_SIZE + lz;
-        const chance = hashRange(this.treeSeed, wx, wz);
-        if (chance < 0.992) {
-          continue;
-        }
-
-        const groundY = this.findSurface(chunk, lx, lz);
-        if (groundY < WORLD_SEA_LEVEL + 1 || groundY > WORLD_HEIGHT - 12) {
-          continue;
-        }
-        if (chunk.get(lx, groundY, lz) !== BlockId.Grass) {
-          continue;
-        }
+  getBiome(wx: number, wz: number): BiomeDefinition {
+    return this.biomes.getBiome(wx, wz);
+  }
 
-        const trunkHeight = 4 + Math.floor(hashRange(this.treeSeed ^ 0xaa1, wx, wz) * 3);
-        for (let y = 1; y <= trunkHeight; y += 1) {
-          chunk.set(lx, groundY + y, lz, BlockId.Wood);
-        }
+  // Predicts a column's top block without generating its chunk, for placing features across chunk borders.
+  private sampleSurface(wx: number, wz: number): SurfaceSample {
+    const { height, biome } = this.getColumn(wx, wz);
+    const carved = this.caves.getRavineFloor(wx, wz, height) <= height || this.caves.isCave(wx, height, wz, height);
+    let block = isBeach(height, biome) ? BlockId.Sand : biome.surfaceBlock;
+    if (carved) {
+      block = BlockId.Air;
+    }
+    return { y: height, block, biome };
+  }
 
-        const crownBase = groundY + trunkHeight - 1;
-        for (let ox = -2; ox <= 2; ox += 1) {
-          for (let oz = -2; oz <= 2; oz += 1) {
-            for (let oy = 0; oy <= 2; oy += 1) {
-              const distance = Math.abs(ox) + Math.abs(oz) + oy;
-              if (distance > 4) {
-                continue;
-              }
-              const tx = lx + ox;
-              const tz = lz + oz;
-              const ty = crownBase + oy;
-              if (tx < 0 || tz < 0 || tx >= CHUNK_SIZE || tz >= CHUNK_SIZE || ty >= WORLD_HEIGHT) {
-                continue;
-              }
-              if (chunk.get(tx, ty, tz) === BlockId.Air) {
-                chunk.set(tx, ty, tz, BlockId.Leaves);
-              }
-            }
-          }
-        }
+  private generateOres(chunk: ChunkData, columns: TerrainColumn[]): void {
+    const biome = columns[CHUNK_SIZE / 2 + (CHUNK_SIZE / 2) * CHUNK_SIZE].biome;
+    for (let i = 0; i < ORE_VEINS.length; i += 1) {
+      const vein = ORE_VEINS[i];
+      const veinSeed = hashRange(this.oreSeed ^ Math.imul(i + 1, 0x9e3779b1), chunk.cx, chunk.cz);
+      const random = createRandom(Math.floor(veinSeed * 0xffffffff));
+      const count = getVeinCount(vein, biome.id, random());
+      for (let n = 0; n < count; n += 1) {
+        this.placeVein(chunk, vein, random);
       }
     }
   }
 
-  private findSurface(chunk: ChunkData, lx: number, lz: number): number {
-    for (let y = WORLD_HEIGHT - 1; y >= 0; y -= 1) {
-      const block = chunk.get(lx, y, lz);
-      if (block !== BlockId.Air && block !== BlockId.Water) {
-        return y;
+  // A short random walk through the stone, so veins come out as irregular clumps rather than cubes.
+  private placeVein(chunk: ChunkData, vein: OreVeinDefinition, random: () => number): void {
+    let x = Math.floor(random() * CHUNK_SIZE);
+    let z = Math.floor(random() * CHUNK_SIZE);
+    let y = Math.floor(vein.minY + ((random() + random()) / 2) * (vein.maxY - vein.minY));
+    for (let step = 0; step < vein.veinSize; step += 1) {
+      if (x >= 0 && z >= 0 && x < CHUNK_SIZE && z < CHUNK_SIZE && y > 0 && y < WORLD_HEIGHT) {
+        if (chunk.get(x, y, z) === BlockId.Stone) {
+          chunk.set(x, y, z, vein.block);
+        }
+      }
+      const axis = Math.floor(random() * 3);
+      const delta = random() < 0.5 ? -1 : 1;
+      if (axis === 0) {
+        x += delta;
+      } else if (axis === 1) {
+        y += delta;
+      } else {
+        z += delta;
       }
     }
-    return 0;
   }
 
-  private getHeight(wx: number, wz: number): number {
-    const base = this.heightNoise.fbm(wx * 0.015, wz * 0.015, 5);
-    const detail = this.detailNoise.fbm(wx * 0.05, wz * 0.05, 3);
-    const h = 22 + base * 30 + detail * 6;
-    return Math.max(6, Math.min(WORLD_HEIGHT - 8, Math.floor(h)));
+  // Each biome shapes the shared hill noise its own way; blending by climate weight keeps borders smooth.
+  private getColumn(wx: number, wz: number): TerrainColumn {
+    const weights = this.biomes.getWeights(wx, wz);
+    const hills = (this.heightNoise.fbm(wx * 0.015, wz * 0.015, 5) - 0.5) * 2;
+    const detail = (this.detailNoise.fbm(wx * 0.05, wz * 0.05, 3) - 0.5) * 2;
+    let h = 0;
+    for (const { biome, weight } of weights) {
+      h += (biome.baseHeight + hills * biome.heightVariation + detail * 3) * weight;
+    }
+    return {
+      height: Math.max(6, Math.min(WORLD_HEIGHT - 8, Math.floor(h))),
+      biome: dominantBiome(weights)
+    };
   }
 }
+
+// Shores get beaches, except where the biome already has its own wet or frozen ground.
+function isBeach(height: number, biome: BiomeDefinition): boolean {
+  return height <= WORLD_SEA_LEVEL + 1 && biome.id !== "swamp" && biome.id !== "snowy_mountains";
+}
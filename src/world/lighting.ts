@@ -0,0 +1,351 @@
+import { BLOCK_DEFS, getLightEmission, isLiquidBlock, isOpaqueBlock, isSolidBlock } from "../blocks";
+import { CHUNK_SIZE, WORLD_HEIGHT } from "../config";
+import { ChunkData } from "./chunk";
+
+export const MAX_LIGHT = 15;
+export const SKY_SHIFT = 4;
+export const BLOCK_SHIFT = 0;
+
+export interface LightChunkSource {
+  getLoadedChunk(cx: number, cz: number): ChunkData | null;
+  onChunkLightChanged(cx: number, cz: number): void;
+}
+
+const LAYER_SIZE = CHUNK_SIZE * CHUNK_SIZE;
+const DIRECTIONS: Array<[number, number, number]> = [
+  [1, 0, 0],
+  [-1, 0, 0],
+  [0, 1, 0],
+  [0, -1, 0],
+  [0, 0, 1],
+  [0, 0, -1]
+];
+
+// Bits recording which borders of a chunk saw a light change, since the neighbor's mesh samples them too.
+const BORDER_NEG_X = 1;
+const BORDER_POS_X = 2;
+const BORDER_NEG_Z = 4;
+const BORDER_POS_Z = 8;
+const ALL_BORDERS = BORDER_NEG_X | BORDER_POS_X | BORDER_NEG_Z | BORDER_POS_Z;
+const BORDER_NEIGHBORS: Array<[number, number, number]> = [
+  [BORDER_NEG_X, -1, 0],
+  [BORDER_POS_X, 1, 0],
+  [BORDER_NEG_Z, 0, -1],
+  [BORDER_POS_Z, 0, 1]
+];
+
+let opaqueBlocks: Uint8Array | null = null;
+let skyClearBlocks: Uint8Array | null = null;
+let emissionLevels: Uint8Array | null = null;
+
+// Flood-fill lighting over whatever chunks the source has loaded. Skylight travels straight down at
+// full strength through open air and loses one level per step everywhere else, as does block light.
+export class LightEngine {
+  private readonly source: LightChunkSource;
+  private readonly changed = new Map<ChunkData, number>();
+
+  constructor(source: LightChunkSource) {
+    this.source = source;
+  }
+
+  // Lights a chunk from its own sky columns and emitters; light spills into loaded neighbors as well.
+  lightChunk(chunk: ChunkData): void {
+    const { opaque, skyClear, emission } = lightLookups();
+    const { blocks, light } = chunk;
+    const baseX = chunk.cx * CHUNK_SIZE;
+    const baseZ = chunk.cz * CHUNK_SIZE;
+    light.fill(0);
+
+    const skyTops = new Int32Array(LAYER_SIZE);
+    for (let column = 0; column < LAYER_SIZE; column += 1) {
+      let y = WORLD_HEIGHT - 1;
+      while (y >= 0 && skyClear[blocks[column + y * LAYER_SIZE]] === 1) {
+        light[column + y * LAYER_SIZE] = MAX_LIGHT << SKY_SHIFT;
+        y -= 1;
+      }
+      skyTops[column] = y + 1;
+    }
+
+    // Only sky cells next to shade need to spread; the rest are already at full strength.
+    const skyQueue: number[] = [];
+    for (let lz = 0; lz < CHUNK_SIZE; lz += 1) {
+      for (let lx = 0; lx < CHUNK_SIZE; lx += 1) {
+        const top = skyTops[lx + lz * CHUNK_SIZE];
+        const shadeTop = Math.max(
+          top,
+          skyTopAt(skyTops, lx - 1, lz),
+          skyTopAt(skyTops, lx + 1, lz),
+          skyTopAt(skyTops, lx, lz - 1),
+          skyTopAt(skyTops, lx, lz + 1)
+        );
+        for (let y = top; y < WORLD_HEIGHT && y <= shadeTop; y += 1) {
+          skyQueue.push(baseX + lx, y, baseZ + lz);
+        }
+      }
+    }
+
+    const blockQueue: number[] = [];
+    for (let index = 0; index < blocks.length; index += 1) {
+      const level = emission[blocks[index]];
+      if (level === 0) {
+        continue;
+      }
+      light[index] |= level << BLOCK_SHIFT;
+      const lx = index % CHUNK_SIZE;
+      const lz = Math.floor(index / CHUNK_SIZE) % CHUNK_SIZE;
+      blockQueue.push(baseX + lx, Math.floor(index / LAYER_SIZE), baseZ + lz);
+    }
+
+    // Every cell changed, so flag the whole chunk and its borders up front.
+    this.changed.set(chunk, ALL_BORDERS);
+    this.propagate(skyQueue, SKY_SHIFT, opaque, skyClear);
+    this.propagate(blockQueue, BLOCK_SHIFT, opaque, skyClear);
+    this.flushChanges();
+  }
+
+  // Lets light flow both ways across the borders a newly loaded chunk shares with loaded neighbors.
+  stitchChunk(cx: number, cz: number): void {
+    const chunk = this.source.getLoadedChunk(cx, cz);
+    if (!chunk) {
+      return;
+    }
+    const { opaque, skyClear } = lightLookups();
+    const skyQueue: number[] = [];
+    const blockQueue: number[] = [];
+    const baseX = cx * CHUNK_SIZE;
+    const baseZ = cz * CHUNK_SIZE;
+    const last = CHUNK_SIZE - 1;
+    for (const [, dx, dz] of BORDER_NEIGHBORS) {
+      const neighbor = this.source.getLoadedChunk(cx + dx, cz + dz);
+      if (!neighbor) {
+        continue;
+      }
+      for (let y = 0; y < WORLD_HEIGHT; y += 1) {
+        for (let t = 0; t < CHUNK_SIZE; t += 1) {
+          const lx = dx === 0 ? t : dx < 0 ? 0 : last;
+          const lz = dz === 0 ? t : dz < 0 ? 0 : last;
+          const inside = chunk.light[lx + lz * CHUNK_SIZE + y * LAYER_SIZE];
+          const outside = neighbor.light[((lx + dx) & last) + ((lz + dz) & last) * CHUNK_SIZE + y * LAYER_SIZE];
+          // Only the brighter side of a pair two or more levels apart has anything to hand over.
+          for (const [shift, queue] of [
+            [SKY_SHIFT, skyQueue],
+            [BLOCK_SHIFT, blockQueue]
+          ] as const) {
+            const insideLevel = (inside >> shift) & 0xf;
+            const outsideLevel = (outside >> shift) & 0xf;
+            if (insideLevel > outsideLevel + 1) {
+              queue.push(baseX + lx, y, baseZ + lz);
+            } else if (outsideLevel > insideLevel + 1) {
+              queue.push(baseX + lx + dx, y, baseZ + lz + dz);
+            }
+          }
+        }
+      }
+    }
+    this.propagate(skyQueue, SKY_SHIFT, opaque, skyClear);
+    this.propagate(blockQueue, BLOCK_SHIFT, opaque, skyClear);
+    this.flushChanges();
+  }
+
+  // Call after the block at this position changed to darken and re-flood whatever it affects.
+  updateBlock(x: number, y: number, z: number): void {
+    const chunk = this.chunkAt(x, z);
+    if (!chunk || y < 0 || y >= WORLD_HEIGHT) {
+      return;
+    }
+    const { opaque, skyClear, emission } = lightLookups();
+    const index = localIndex(x, y, z);
+    for (const shift of [SKY_SHIFT, BLOCK_SHIFT]) {
+      const relight: number[] = [];
+      this.removeLight(x, y, z, shift, relight);
+      const level = shift === BLOCK_SHIFT ? emission[chunk.blocks[index]] : 0;
+      if (level > 0) {
+        this.setLevel(chunk, index, shift, level);
+        relight.push(x, y, z);
+      }
+      for (const [dx, dy, dz] of DIRECTIONS) {
+        relight.push(x + dx, y + dy, z + dz);
+      }
+      this.propagate(relight, shift, opaque, skyClear);
+    }
+    this.flushChanges();
+  }
+
+  getLight(x: number, y: number, z: number): number {
+    const chunk = this.chunkAt(x, z);
+    if (!chunk || y < 0 || y >= WORLD_HEIGHT) {
+      return y >= WORLD_HEIGHT ? MAX_LIGHT << SKY_SHIFT : 0;
+    }
+    return chunk.light[localIndex(x, y, z)];
+  }
+
+  private propagate(queue: number[], shift: number, opaque: Uint8Array, skyClear: Uint8Array): void {
+    for (let head = 0; head < queue.length; head += 3) {
+      const x = queue[head];
+      const y = queue[head + 1];
+      const z = queue[head + 2];
+      if (y < 0 || y >= WORLD_HEIGHT) {
+        continue;
+      }
+      const chunk = this.chunkAt(x, z);
+      if (!chunk) {
+        continue;
+      }
+      const level = (chunk.light[localIndex(x, y, z)] >> shift) & 0xf;
+      if (level <= 1) {
+        continue;
+      }
+      for (const [dx, dy, dz] of DIRECTIONS) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= WORLD_HEIGHT) {
+          continue;
+        }
+        const nx = x + dx;
+        const nz = z + dz;
+        const neighbor = dx === 0 && dz === 0 ? chunk : this.chunkAt(nx, nz);
+        if (!neighbor) {
+          continue;
+        }
+        const index = localIndex(nx, ny, nz);
+        const block = neighbor.blocks[index];
+        if (opaque[block] === 1) {
+          continue;
+        }
+        const fallsFreely = shift === SKY_SHIFT && dy < 0 && level === MAX_LIGHT && skyClear[block] === 1;
+        const next = fallsFreely ? MAX_LIGHT : level - 1;
+        if (next > ((neighbor.light[index] >> shift) & 0xf)) {
+          this.setLevel(neighbor, index, shift, next);
+          queue.push(nx, ny, nz);
+        }
+      }
+    }
+  }
+
+  // Clears the light this cell used to hand out and collects the brighter cells bordering the
+  // darkened region so they can flood back in.
+  private removeLight(x: number, y: number, z: number, shift: number, relight: number[]): void {
+    const origin = this.chunkAt(x, z);
+    if (!origin) {
+      return;
+    }
+    const originIndex = localIndex(x, y, z);
+    const originLevel = (origin.light[originIndex] >> shift) & 0xf;
+    if (originLevel === 0) {
+      return;
+    }
+    const { emission } = lightLookups();
+    this.setLevel(origin, originIndex, shift, 0);
+
+    const queue = [x, y, z, originLevel];
+    for (let head = 0; head < queue.length; head += 4) {
+      const px = queue[head];
+      const py = queue[head + 1];
+      const pz = queue[head + 2];
+      const level = queue[head + 3];
+      for (const [dx, dy, dz] of DIRECTIONS) {
+        const ny = py + dy;
+        if (ny < 0 || ny >= WORLD_HEIGHT) {
+          continue;
+        }
+        const nx = px + dx;
+        const nz = pz + dz;
+        const neighbor = this.chunkAt(nx, nz);
+        if (!neighbor) {
+          continue;
+        }
+        const index = localIndex(nx, ny, nz);
+        const neighborLevel = (neighbor.light[index] >> shift) & 0xf;
+        if (neighborLevel === 0) {
+          continue;
+        }
+        const fedFromAbove = shift === SKY_SHIFT && dy < 0 && level === MAX_LIGHT && neighborLevel === MAX_LIGHT;
+        if (neighborLevel < level || fedFromAbove) {
+          this.setLevel(neighbor, index, shift, 0);
+          queue.push(nx, ny, nz, neighborLevel);
+          const ownLevel = shift === BLOCK_SHIFT ? emission[neighbor.blocks[index]] : 0;
+          if (ownLevel > 0) {
+            // Other emitters caught in the removal keep shining.
+            this.setLevel(neighbor, index, shift, ownLevel);
+            relight.push(nx, ny, nz);
+          }
+        } else {
+          relight.push(nx, ny, nz);
+        }
+      }
+    }
+  }
+
+  private setLevel(chunk: ChunkData, index: number, shift: number, level: number): void {
+    chunk.light[index] = (chunk.light[index] & ~(0xf << shift)) | (level << shift);
+    const lx = index % CHUNK_SIZE;
+    const lz = Math.floor(index / CHUNK_SIZE) % CHUNK_SIZE;
+    this.changed.set(chunk, (this.changed.get(chunk) ?? 0) | borderBits(lx, lz));
+  }
+
+  private flushChanges(): void {
+    for (const [chunk, borders] of this.changed) {
+      this.source.onChunkLightChanged(chunk.cx, chunk.cz);
+      for (const [bit, dx, dz] of BORDER_NEIGHBORS) {
+        if ((borders & bit) !== 0) {
+          this.source.onChunkLightChanged(chunk.cx + dx, chunk.cz + dz);
+        }
+      }
+    }
+    this.changed.clear();
+  }
+
+  private chunkAt(x: number, z: number): ChunkData | null {
+    return this.source.getLoadedChunk(Math.floor(x / CHUNK_SIZE), Math.floor(z / CHUNK_SIZE));
+  }
+}
+
+// Lights a single chunk in isolation, e.g. inside a worker; borders are stitched once it joins a world.
+export function computeChunkLight(chunk: ChunkData): void {
+  const engine = new LightEngine({
+    getLoadedChunk: (cx, cz) => (cx === chunk.cx && cz === chunk.cz ? chunk : null),
+    onChunkLightChanged: () => undefined
+  });
+  engine.lightChunk(chunk);
+}
+
+function skyTopAt(skyTops: Int32Array, lx: number, lz: number): number {
+  if (lx < 0 || lx >= CHUNK_SIZE || lz < 0 || lz >= CHUNK_SIZE) {
+    return 0;
+  }
+  return skyTops[lx + lz * CHUNK_SIZE];
+}
+
+function borderBits(lx: number, lz: number): number {
+  let bits = 0;
+  if (lx === 0) {
+    bits |= BORDER_NEG_X;
+  } else if (lx === CHUNK_SIZE - 1) {
+    bits |= BORDER_POS_X;
+  }
+  if (lz === 0) {
+    bits |= BORDER_NEG_Z;
+  } else if (lz === CHUNK_SIZE - 1) {
+    bits |= BORDER_POS_Z;
+  }
+  return bits;
+}
+
+function localIndex(x: number, y: number, z: number): number {
+  const lx = ((x % CHUNK_SIZE) + CHUNK_SIZE) % CHUNK_SIZE;
+  const lz = ((z % CHUNK_SIZE) + CHUNK_SIZE) % CHUNK_SIZE;
+  return lx + lz * CHUNK_SIZE + y * LAYER_SIZE;
+}
+
+function lightLookups(): { opaque: Uint8Array; skyClear: Uint8Array; emission: Uint8Array } {
+  if (!opaqueBlocks || !skyClearBlocks || !emissionLevels) {
+    opaqueBlocks = new Uint8Array(65536);
+    skyClearBlocks = new Uint8Array(65536);
+    emissionLevels = new Uint8Array(65536);
+    for (const def of Object.values(BLOCK_DEFS)) {
+      opaqueBlocks[def.id] = isOpaqueBlock(def.id) ? 1 : 0;
+      skyClearBlocks[def.id] = !isSolidBlock(def.id) && !isLiquidBlock(def.id) ? 1 : 0;
+      emissionLevels[def.id] = getLightEmission(def.id);
+    }
+  }
+  return { opaque: opaqueBlocks, skyClear: skyClearBlocks, emission: emissionLevels };
+}
@@ -0,0 +1,52 @@
+import { BlockId } from "../types";
+import { BiomeId } from "./biomes";
+
+export interface OreVeinDefinition {
+  block: BlockId;
+  // Average number of veins per chunk before the biome multiplier.
+  veinsPerChunk: number;
+  veinSize: number;
+  // Vein centers cluster around the middle of this range and thin out toward both ends.
+  minY: number;
+  maxY: number;
+  biomeMultiplier?: Partial<Record<BiomeId, number>>;
+}
+
+export const ORE_VEINS: OreVeinDefinition[] = [
+  {
+    block: BlockId.CoalOre,
+    veinsPerChunk: 16,
+    veinSize: 10,
+    minY: 6,
+    maxY: 72,
+    biomeMultiplier: { snowy_mountains: 1.5, ocean: 0.5 }
+  },
+  {
+    block: BlockId.IronOre,
+    veinsPerChunk: 8,
+    veinSize: 7,
+    minY: 4,
+    maxY: 50,
+    biomeMultiplier: { snowy_mountains: 1.5, ocean: 0.5 }
+  },
+  {
+    block: BlockId.GoldOre,
+    veinsPerChunk: 2.5,
+    veinSize: 6,
+    minY: 2,
+    maxY: 30,
+    biomeMultiplier: { desert: 2, ocean: 0.5 }
+  },
+  {
+    block: BlockId.DiamondOre,
+    veinsPerChunk: 1,
+    veinSize: 4,
+    minY: 1,
+    maxY: 14
+  }
+];
+
+export function getVeinCount(vein: OreVeinDefinition, biome: BiomeId, roll: number): number {
+  const multiplier = vein.biomeMultiplier?.[biome] ?? 1;
+  return Math.floor(vein.veinsPerChunk * multiplier + roll);
+}
@@ -1,9 +1,13 @@
 import { CHUNK_SIZE, VIEW_DISTANCE_CHUNKS, WORLD_HEIGHT } from "../config";
 import { BlockId } from "../types";
-import { isSolidBlock } from "../blocks";
+import { isLiquidBlock, isSolidBlock, isSuffocatingBlock } from "../blocks";
+import { createBlockEntity, tickBlockEntity } from "../shared/blockEntities";
+import { BlockEntityState } from "../shared/protocol";
 import { IndexedDbSaveRepository } from "../save/indexeddb";
+import { ChunkWorkerPool } from "../workers/chunkWorkerPool";
 import { chunkKey, ChunkData, parseChunkKey } from "./chunk";
-import { WorldGenerator } from "./generator";
+import { FluidSimulator } from "./fluids";
+import { computeChunkLight, LightEngine } from "./lighting";
 
 interface ChunkState {
   chunk: ChunkData;
@@ -13,19 +17,28 @@ interface ChunkState {
 }
 
 export class WorldStore {
-  private readonly generator: WorldGenerator;
+  private readonly workers: ChunkWorkerPool;
   private readonly saveRepo: IndexedDbSaveRepository;
+  private readonly seed: number;
   private readonly worldKeyPrefix: string;
   private readonly chunks = new Map<string, ChunkState>();
   private readonly loadQueue: Array<{ cx: number; cz: number }> = [];
   private readonly queuedKeys = new Set<string>();
   private readonly loadingKeys = new Set<string>();
-  private maxConcurrentLoads = 2;
+  private readonly maxConcurrentLoads: number;
+  private readonly fluids = new FluidSimulator(this);
+  private readonly light = new LightEngine({
+    getLoadedChunk: (cx, cz) => this.getLoadedChunk(cx, cz),
+    onChunkLightChanged: (cx, cz) => this.markChunkMeshDirty(cx, cz)
+  });
 
-  constructor(generator: WorldGenerator, saveRepo: IndexedDbSaveRepository, seed: number) {
-    this.generator = generator;
+  // The pool should be sized from the same `maxConcurrentLoads`, so every in-flight load gets its own worker.
+  constructor(workers: ChunkWorkerPool, saveRepo: IndexedDbSaveRepository, seed: number, maxConcurrentLoads: number) {
+    this.workers = workers;
     this.saveRepo = saveRepo;
+    this.seed = seed;
     this.worldKeyPrefix = `${seed}:`;
+    this.maxConcurrentLoads = Math.max(1, maxConcurrentLoads);
   }
 
   getLoadedChunkCount(): number {
@@ -46,6 +59,15 @@ export class WorldStore {
     return this.chunks.has(chunkKey(cx, cz));
   }
 
+  isLoaded(x: number, z: number): boolean {
+    const { cx, cz } = worldToChunk(x, z);
+    return this.chunks.has(chunkKey(cx, cz));
+  }
+
+  getLoadedChunk(cx: number, cz: number): ChunkData | null {
+    return this.chunks.get(chunkKey(cx, cz))?.chunk ?? null;
+  }
+
   queueChunksAround(x: number, z: number, radius = VIEW_DISTANCE_CHUNKS): void {
     const center = worldToChunk(x, z);
     const targets: Array<{ cx: number; cz: number; dist2: number }> = [];
@@ -82,9 +104,12 @@ export class WorldStore {
         continue;
       }
       this.loadingKeys.add(key);
-      void this.loadChunk(next.cx, next.cz).finally(() => {
-        this.loadingKeys.delete(key);
-      });
+      // A failed load only releases its key; the chunk is queued again on the next pass around the player.
+      void this.loadChunk(next.cx, next.cz)
+        .catch(() => undefined)
+        .finally(() => {
+          this.loadingKeys.delete(key);
+        });
     }
   }
 
@@ -97,7 +122,7 @@ export class WorldStore {
       const dz = Math.abs(cz - center.cz);
       if (dx > radius || dz > radius) {
         if (state.dirty) {
-          await this.saveRepo.saveChunk(this.storageChunkKey(cx, cz), state.chunk.blocks);
+          await this.saveChunk(cx, cz, state.chunk);
         }
         removals.push(key);
       }
@@ -114,7 +139,7 @@ export class WorldStore {
         continue;
       }
       const { cx, cz } = parseChunkKey(key);
-      await this.saveRepo.saveChunk(this.storageChunkKey(cx, cz), state.chunk.blocks);
+      await this.saveChunk(cx, cz, state.chunk);
       state.dirty = false;
     }
   }
@@ -132,7 +157,16 @@ export class WorldStore {
     return state.chunk.get(lx, y, lz);
   }
 
-  setBlock(x: number, y: number, z: number, block: BlockId): boolean {
+  getBlockMeta(x: number, y: number, z: number): number {
+    if (y < 0 || y >= WORLD_HEIGHT) {
+      return 0;
+    }
+    const { cx, cz, lx, lz } = worldToChunkLocal(x, z);
+    const state = this.chunks.get(chunkKey(cx, cz));
+    return state ? state.chunk.getMeta(lx, y, lz) : 0;
+  }
+
+  setBlock(x: number, y: number, z: number, block: BlockId, meta = 0): boolean {
     if (y < 0 || y >= WORLD_HEIGHT) {
       return false;
     }
@@ -144,11 +178,17 @@ export class WorldStore {
     }
 
     const oldBlock = state.chunk.get(lx, y, lz);
-    if (oldBlock === block) {
+    if (oldBlock === block && state.chunk.getMeta(lx, y, lz) === meta) {
       return false;
     }
 
     state.chunk.set(lx, y, lz, block);
+    state.chunk.setMeta(lx, y, lz, meta);
+    if (oldBlock !== block) {
+      state.chunk.setBlockEntity(lx, y, lz, createBlockEntity(block, Math.floor(x), y, Math.floor(z)));
+    }
+    this.light.updateBlock(Math.floor(x), y, Math.floor(z));
+    this.fluids.scheduleAround(Math.floor(x), y, Math.floor(z));
     state.dirty = true;
     state.meshDirty = true;
     state.lastTouched = performance.now();
@@ -167,20 +207,66 @@ export class WorldStore {
     return true;
   }
 
+  getBlockEntity(x: number, y: number, z: number): BlockEntityState | null {
+    const { cx, cz, lx, lz } = worldToChunkLocal(x, z);
+    return this.chunks.get(chunkKey(cx, cz))?.chunk.getBlockEntity(lx, y, lz) ?? null;
+  }
+
+  // Saves the chunk holding a block entity whose contents were changed from outside, e.g. by a player.
+  markBlockEntityChanged(entity: BlockEntityState): void {
+    const { cx, cz } = worldToChunk(entity.x, entity.z);
+    const state = this.chunks.get(chunkKey(cx, cz));
+    if (state) {
+      state.dirty = true;
+    }
+  }
+
+  // Ticks every block entity in the loaded chunks, open or not.
+  updateBlockEntities(dt: number): void {
+    for (const state of this.chunks.values()) {
+      for (const entity of state.chunk.blockEntities.values()) {
+        if (tickBlockEntity(entity, dt)) {
+          state.dirty = true;
+        }
+      }
+    }
+  }
+
+  // Packed light at a position: skylight in the high nibble, block light in the low one.
+  getLight(x: number, y: number, z: number): number {
+    return this.light.getLight(Math.floor(x), Math.floor(y), Math.floor(z));
+  }
+
   isSolid(x: number, y: number, z: number): boolean {
     return isSolidBlock(this.getBlock(x, y, z));
   }
 
+  isLiquid(x: number, y: number, z: number): boolean {
+    return isLiquidBlock(this.getBlock(x, y, z));
+  }
+
+  isSuffocating(x: number, y: number, z: number): boolean {
+    return isSuffocatingBlock(this.getBlock(x, y, z));
+  }
+
   async saveChunkIfDirty(cx: number, cz: number): Promise<void> {
     const key = chunkKey(cx, cz);
     const state = this.chunks.get(key);
     if (!state || !state.dirty) {
       return;
     }
-    await this.saveRepo.saveChunk(this.storageChunkKey(cx, cz), state.chunk.blocks);
+    await this.saveChunk(cx, cz, state.chunk);
     state.dirty = false;
   }
 
+  updateFluids(dt: number): void {
+    this.fluids.update(dt);
+  }
+
+  getPendingFluidUpdates(): number {
+    return this.fluids.getScheduledCount();
+  }
+
   private markChunkMeshDirty(cx: number, cz: number): void {
     const state = this.chunks.get(chunkKey(cx, cz));
     if (state) {
@@ -188,6 +274,11 @@ export class WorldStore {
     }
   }
 
+  private async saveChunk(cx: number, cz: number, chunk: ChunkData): Promise<void> {
+    const entities = [...chunk.blockEntities.values()];
+    await this.saveRepo.saveChunk(this.storageChunkKey(cx, cz), chunk.blocks, chunk.meta, entities);
+  }
+
   private storageChunkKey(cx: number, cz: number): string {
     return `${this.worldKeyPrefix}${cx}:${cz}`;
   }
@@ -195,7 +286,14 @@ export class WorldStore {
   private async loadChunk(cx: number, cz: number): Promise<void> {
     const key = chunkKey(cx, cz);
     const persisted = await this.saveRepo.loadChunk(this.storageChunkKey(cx, cz));
-    const chunk = persisted ? new ChunkData(cx, cz, persisted) : this.generator.generateChunk(cx, cz);
+    let chunk: ChunkData;
+    if (persisted) {
+      chunk = new ChunkData(cx, cz, persisted.blocks, persisted.meta ?? undefined);
+      chunk.restoreBlockEntities(persisted.entities);
+      computeChunkLight(chunk);
+    } else {
+      chunk = await this.workers.generateChunk(this.seed, cx, cz);
+    }
     this.chunks.set(key, {
       chunk,
       dirty: false,
@@ -203,11 +301,14 @@ export class WorldStore {
       lastTouched: performance.now()
     });
 
-    // Neighbor chunks need remesh when a border chunk appears/disappears.
+    // Neighbor chunks need remesh when a border chunk appears/disappears; light crossing the shared
+    // borders flags any chunk it reaches further in.
     this.markChunkMeshDirty(cx - 1, cz);
     this.markChunkMeshDirty(cx + 1, cz);
     this.markChunkMeshDirty(cx, cz - 1);
     this.markChunkMeshDirty(cx, cz + 1);
+    this.light.stitchChunk(cx, cz);
+    this.fluids.onChunkLoaded(cx, cz);
   }
 }
 